@@ -0,0 +1,220 @@
+import {
+    BATTLE_STATUS_AWAITING_WILDCARD,
+    CLASS_ASSASSIN,
+    CLASS_MAGE,
+    CLASS_TANK,
+    CLASS_TRICKSTER,
+    CLASS_WARRIOR,
+    game_executeTurn,
+} from "../contracts/game";
+import {
+    ALICE,
+    BOB,
+    Duel,
+    actAs,
+    createCharacter,
+    deployGame,
+    setFixedStats,
+    readCharacter,
+    writeBattle,
+    writeCharacter,
+} from "./helpers";
+
+// Fixed-damage duel: "one" (Alice, player 1) against "two" (Bob, player 2), no crits or dodges
+function setupDuel(
+    battleId: string,
+    class1: u8,
+    hp1: u64,
+    damage1: u16,
+    defense1: u16,
+    class2: u8,
+    hp2: u64,
+    damage2: u16,
+    defense2: u16,
+): Duel {
+    deployGame();
+    createCharacter(ALICE, "one", class1);
+    createCharacter(BOB, "two", class2);
+    setFixedStats("one", hp1, damage1, defense1);
+    setFixedStats("two", hp2, damage2, defense2);
+    const duel = new Duel(battleId, "one", ALICE, "two", BOB);
+    duel.start();
+    return duel;
+}
+
+function setCritChance(charId: string, critChance: u16): void {
+    const c = readCharacter(charId);
+    c.critChance = critChance;
+    writeCharacter(charId, c);
+}
+
+describe("warrior", () => {
+    test("enrages after four hits landed or taken and swings 50% harder while raging", () => {
+        const duel = setupDuel("1", CLASS_WARRIOR, 500, 10, 0, CLASS_MAGE, 500, 10, 0);
+
+        duel.turn(); // lands: 1
+        duel.turn(); // takes: 2
+        duel.turn(); // lands: 3
+        expect(duel.battle().player1RageMeter).toBe(3);
+        duel.turn(); // takes: 4, enraged (already ticked once)
+        let b = duel.battle();
+        expect(b.player1RageMeter).toBe(0);
+        expect(b.player1RageTurns).toBe(1);
+
+        duel.turn(); // raging swing: +50%
+        b = duel.battle();
+        expect(b.player2Hp).toBe(500 - 10 - 10 - 15);
+        expect(b.player1RageTurns).toBe(0);
+
+        duel.turn();
+        duel.turn(); // rage is over
+        expect(duel.battle().player2Hp).toBe(500 - 10 - 10 - 15 - 10);
+    });
+});
+
+describe("assassin", () => {
+    test("gets no backstab bonus against a target missing less than 5% HP", () => {
+        const duel = setupDuel("1", CLASS_ASSASSIN, 500, 10, 0, CLASS_MAGE, 1000, 1, 0);
+
+        for (let i = 0; i < 3; i++) {
+            duel.turn();
+            duel.turn();
+        }
+        expect(duel.battle().player2Hp).toBe(1000 - 30);
+    });
+
+    test("backstabs a nearly dead target for guaranteed 2.5x crits", () => {
+        const duel = setupDuel("1", CLASS_MAGE, 1000, 1, 0, CLASS_ASSASSIN, 500, 10, 0);
+        // 81% base + 19% backstab (target missing 95%) = a crit on every roll
+        setCritChance("two", 81);
+
+        duel.turn(); // vitals are snapshotted on the first turn
+        const b = duel.battle();
+        b.player1Hp = 50;
+        writeBattle("1", b);
+
+        duel.turn();
+        expect(duel.battle().player1Hp).toBe(25);
+        duel.turn();
+        duel.turn();
+        expect(duel.battle().player1Hp).toBe(0);
+    });
+});
+
+describe("mage", () => {
+    test("ignores the defender's flat defense", () => {
+        const duel = setupDuel("1", CLASS_MAGE, 500, 10, 8, CLASS_WARRIOR, 500, 10, 8);
+
+        duel.turn();
+        expect(duel.battle().player2Hp).toBe(490);
+        duel.turn(); // the warrior's hit is reduced by the mage's defense
+        expect(duel.battle().player1Hp).toBe(498);
+    });
+});
+
+describe("tank", () => {
+    test("reflects 15% of the damage it takes", () => {
+        const duel = setupDuel("1", CLASS_MAGE, 500, 100, 0, CLASS_TANK, 1000, 1, 0);
+
+        duel.turn();
+        const b = duel.battle();
+        expect(b.player2Hp).toBe(900);
+        expect(b.player1Hp).toBe(485);
+    });
+
+    test("never finishes the attacker with a reflect", () => {
+        const duel = setupDuel("1", CLASS_MAGE, 500, 100, 0, CLASS_TANK, 1000, 1, 0);
+
+        duel.turn();
+        duel.turn();
+        const b = duel.battle();
+        b.player1Hp = 10;
+        writeBattle("1", b);
+
+        duel.turn(); // a 15 HP reflect against 10 HP left
+        const after = duel.battle();
+        expect(after.player2Hp).toBe(800);
+        expect(after.player1Hp).toBe(1);
+        expect(after.isFinished).toBe(false);
+    });
+});
+
+describe("matchups", () => {
+    test("mage against tank: magic damage ignores the tank's defense and is still reflected", () => {
+        const duel = setupDuel("1", CLASS_MAGE, 500, 100, 5, CLASS_TANK, 1000, 20, 50);
+
+        duel.turn();
+        let b = duel.battle();
+        expect(b.player2Hp).toBe(900);
+        expect(b.player1Hp).toBe(485);
+
+        duel.turn(); // the tank's own hit is not magic: the mage's defense applies
+        b = duel.battle();
+        expect(b.player1Hp).toBe(485 - 15);
+    });
+
+    test("warrior against tank: the reflect is taken from the hit after defense", () => {
+        const duel = setupDuel("1", CLASS_WARRIOR, 500, 100, 0, CLASS_TANK, 1000, 10, 20);
+
+        duel.turn();
+        const b = duel.battle();
+        expect(b.player2Hp).toBe(1000 - 80);
+        expect(b.player1Hp).toBe(500 - 12);
+        expect(b.player1RageMeter).toBe(1);
+    });
+
+    test("assassin against warrior: the assassin's hits feed the rage, backstab closes it out", () => {
+        const duel = setupDuel("1", CLASS_ASSASSIN, 1000, 10, 0, CLASS_WARRIOR, 1000, 10, 0);
+
+        duel.turn(); // warrior takes: 1
+        duel.turn(); // lands: 2
+        duel.turn(); // takes: 3
+        duel.turn(); // lands: 4, enraged for its next swing
+        let b = duel.battle();
+        expect(b.player1Hp).toBe(980);
+        expect(b.player2RageMeter).toBe(0);
+        expect(b.player2RageTurns).toBeGreaterThan(0);
+
+        // 81% base + 19% backstab (warrior missing 95%) = a 2.5x crit on every roll
+        setCritChance("one", 81);
+        b.player2Hp = 50;
+        writeBattle("1", b);
+
+        duel.turn();
+        expect(duel.battle().player2Hp).toBe(25);
+        duel.turn(); // raging swing: +50%
+        b = duel.battle();
+        expect(b.player1Hp).toBe(980 - 15);
+        expect(b.player2RageTurns).toBe(0);
+        duel.turn();
+        b = duel.battle();
+        expect(b.player2Hp).toBe(0);
+        expect(b.winner).toBe(1);
+    });
+});
+
+// Whether player 1's first reveal in battle `battleId` draws a wildcard when player 1 is of `class1`.
+// The roll depends only on the seed, so the same battle id gives the same roll for every class.
+function firstTurnDrawsWildcard(battleId: string, class1: u8): bool {
+    const duel = setupDuel(battleId, class1, 500, 10, 0, CLASS_WARRIOR, 500, 10, 0);
+    actAs(ALICE);
+    game_executeTurn(duel.turnArgs(0, false, 0).serialize());
+    return duel.battle().status == BATTLE_STATUS_AWAITING_WILDCARD;
+}
+
+describe("trickster", () => {
+    test("draws wildcards on its own turns at 25% instead of 10%", () => {
+        let mageDraws = 0;
+        let tricksterDraws = 0;
+        for (let i = 1; i <= 40; i++) {
+            const battleId = i.toString();
+            const mage = firstTurnDrawsWildcard(battleId, CLASS_MAGE);
+            const trickster = firstTurnDrawsWildcard(battleId, CLASS_TRICKSTER);
+            // A roll under 10 is also under 25
+            if (mage) expect(trickster).toBe(true);
+            if (mage) mageDraws++;
+            if (trickster) tricksterDraws++;
+        }
+        expect(tricksterDraws).toBeGreaterThan(mageDraws);
+    });
+});
@@ -0,0 +1,192 @@
+import { Args, bytesToString, bytesToU64 } from "@massalabs/as-types";
+import {
+    CLASS_WARRIOR,
+    RARITY_COMMON,
+    RARITY_EPIC,
+    RARITY_RARE,
+    balanceOf,
+    game_craftEquipment,
+    game_equipItem,
+    game_fuseEquipment,
+    game_getMaterials,
+    game_salvageEquipment,
+    market_listFixedPrice,
+    tokenOfOwnerByIndex,
+} from "../contracts/game";
+import {
+    ALICE,
+    CONTRACT,
+    actAs,
+    clearReentrancyLock,
+    createCharacter,
+    createEquipment,
+    deployGame,
+    hasStorageKey,
+    readEquipment,
+} from "./helpers";
+
+const WEAPON: u8 = 0;
+const ARMOR: u8 = 1;
+
+function materials(owner: string): u64 {
+    return bytesToU64(game_getMaterials(new Args().add(owner).serialize()));
+}
+
+function itemCount(owner: string): u64 {
+    return bytesToU64(balanceOf(new Args().add(owner).serialize()));
+}
+
+function ownedItem(owner: string, index: u64): string {
+    return bytesToString(tokenOfOwnerByIndex(new Args().add(owner).add(index).serialize()));
+}
+
+// Inputs for the calls that are expected to abort
+let fusionIds: string[] = [];
+let salvageId = "";
+let craftRarity: u8 = 0;
+
+function fuse(): void {
+    game_fuseEquipment(new Args().add(fusionIds).serialize());
+}
+
+function salvage(): void {
+    game_salvageEquipment(new Args().add(salvageId).serialize());
+}
+
+function craft(): void {
+    game_craftEquipment(new Args().add(WEAPON).add(craftRarity).serialize());
+}
+
+// Alice owns three commons (the first one a weapon) and acts as caller
+function setupCommons(): void {
+    deployGame();
+    createEquipment("c1", ALICE, WEAPON, RARITY_COMMON);
+    createEquipment("c2", ALICE, ARMOR, RARITY_COMMON);
+    createEquipment("c3", ALICE, WEAPON, RARITY_COMMON);
+    actAs(ALICE);
+}
+
+describe("fusion", () => {
+    test("burns three items of one rarity into one of the next rarity", () => {
+        setupCommons();
+        fusionIds = ["c1", "c2", "c3"];
+        fuse();
+
+        expect(hasStorageKey("equipment:c1")).toBe(false);
+        expect(hasStorageKey("equipment:c2")).toBe(false);
+        expect(hasStorageKey("equipment:c3")).toBe(false);
+        expect(itemCount(ALICE)).toBe(1);
+
+        const fused = readEquipment(ownedItem(ALICE, 0));
+        expect(fused.rarity).toBe(RARITY_RARE);
+        expect(fused.type).toBe(WEAPON);
+        expect(fused.owner.toString()).toBe(ALICE);
+        expect(fused.hpBonus).toBe(25);
+        expect(fused.currentDurability).toBe(200);
+    });
+
+    test("rejects inputs of mixed rarity", () => {
+        setupCommons();
+        createEquipment("r1", ALICE, WEAPON, RARITY_RARE);
+        actAs(ALICE);
+        fusionIds = ["c1", "c2", "r1"];
+        expect(fuse).toThrow("rarity mismatch");
+        clearReentrancyLock();
+
+        expect(hasStorageKey("equipment:c1")).toBe(true);
+        expect(hasStorageKey("equipment:r1")).toBe(true);
+        expect(itemCount(ALICE)).toBe(4);
+    });
+
+    test("rejects an equipped input", () => {
+        setupCommons();
+        createCharacter(ALICE, "hero", CLASS_WARRIOR);
+        game_equipItem(new Args().add("hero").add("c3").serialize());
+        fusionIds = ["c1", "c2", "c3"];
+        expect(fuse).toThrow("equipment equipped");
+        clearReentrancyLock();
+
+        expect(readEquipment("c3").equippedBy).toBe("hero");
+        expect(itemCount(ALICE)).toBe(3);
+    });
+
+    test("rejects a listed input", () => {
+        setupCommons();
+        market_listFixedPrice(new Args().add("c2").add(CONTRACT).add(u64(100)).serialize());
+        fusionIds = ["c1", "c2", "c3"];
+        expect(fuse).toThrow("equipment listed");
+        clearReentrancyLock();
+
+        expect(hasStorageKey("equipment:c2")).toBe(true);
+        expect(itemCount(ALICE)).toBe(3);
+    });
+});
+
+describe("salvage and crafting", () => {
+    test("salvage burns the item and credits its rarity's yield", () => {
+        deployGame();
+        createEquipment("common", ALICE, WEAPON, RARITY_COMMON);
+        createEquipment("epic", ALICE, ARMOR, RARITY_EPIC);
+        actAs(ALICE);
+
+        game_salvageEquipment(new Args().add("common").serialize());
+        expect(materials(ALICE)).toBe(10);
+        game_salvageEquipment(new Args().add("epic").serialize());
+        expect(materials(ALICE)).toBe(100);
+
+        expect(hasStorageKey("equipment:common")).toBe(false);
+        expect(hasStorageKey("equipment:epic")).toBe(false);
+        expect(itemCount(ALICE)).toBe(0);
+    });
+
+    test("salvage rejects equipped and listed items", () => {
+        deployGame();
+        createCharacter(ALICE, "hero", CLASS_WARRIOR);
+        createEquipment("worn", ALICE, WEAPON, RARITY_COMMON);
+        createEquipment("for-sale", ALICE, ARMOR, RARITY_COMMON);
+        actAs(ALICE);
+        game_equipItem(new Args().add("hero").add("worn").serialize());
+        market_listFixedPrice(new Args().add("for-sale").add(CONTRACT).add(u64(100)).serialize());
+
+        salvageId = "worn";
+        expect(salvage).toThrow("equipment equipped");
+        clearReentrancyLock();
+        salvageId = "for-sale";
+        expect(salvage).toThrow("equipment listed");
+        clearReentrancyLock();
+
+        expect(materials(ALICE)).toBe(0);
+        expect(itemCount(ALICE)).toBe(2);
+    });
+
+    test("crafting spends the rarity's cost and mints the requested item", () => {
+        deployGame();
+        createEquipment("epic", ALICE, ARMOR, RARITY_EPIC);
+        actAs(ALICE);
+        game_salvageEquipment(new Args().add("epic").serialize());
+        expect(materials(ALICE)).toBe(90);
+
+        game_craftEquipment(new Args().add(WEAPON).add(RARITY_RARE).serialize());
+        expect(materials(ALICE)).toBe(15);
+        expect(itemCount(ALICE)).toBe(1);
+        const crafted = readEquipment(ownedItem(ALICE, 0));
+        expect(crafted.type).toBe(WEAPON);
+        expect(crafted.rarity).toBe(RARITY_RARE);
+        expect(crafted.owner.toString()).toBe(ALICE);
+    });
+
+    test("crafting without enough materials is rejected", () => {
+        deployGame();
+        createEquipment("common", ALICE, WEAPON, RARITY_COMMON);
+        actAs(ALICE);
+        game_salvageEquipment(new Args().add("common").serialize());
+
+        // 10 materials against a common's cost of 25
+        craftRarity = RARITY_COMMON;
+        expect(craft).toThrow("insufficient materials");
+        clearReentrancyLock();
+
+        expect(materials(ALICE)).toBe(10);
+        expect(itemCount(ALICE)).toBe(0);
+    });
+});
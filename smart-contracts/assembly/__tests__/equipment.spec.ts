@@ -0,0 +1,101 @@
+import { Args } from "@massalabs/as-types";
+import {
+    CLASS_TANK,
+    CLASS_WARRIOR,
+    RARITY_COMMON,
+    RARITY_RARE,
+    game_equipItem,
+    game_transferEquipment,
+    game_unequipItem,
+} from "../contracts/game";
+import {
+    ALICE,
+    BOB,
+    actAs,
+    clearReentrancyLock,
+    createCharacter,
+    createEquipment,
+    deployGame,
+    readCharacter,
+    readEquipment,
+} from "./helpers";
+
+const WEAPON: u8 = 0;
+const ARMOR: u8 = 1;
+
+function equip(charId: string, equipmentId: string): void {
+    game_equipItem(new Args().add(charId).add(equipmentId).serialize());
+}
+
+// Alice owns two characters and a common sword
+function setup(): void {
+    deployGame();
+    createCharacter(ALICE, "knight", CLASS_WARRIOR);
+    createCharacter(ALICE, "squire", CLASS_TANK);
+    createEquipment("sword", ALICE, WEAPON, RARITY_COMMON);
+    actAs(ALICE);
+}
+
+function equipSwordOnSquire(): void {
+    equip("squire", "sword");
+}
+
+describe("equipment slots", () => {
+    test("transferring an equipped item unequips it first", () => {
+        setup();
+        equip("knight", "sword");
+        expect(readCharacter("knight").weaponId).toBe("sword");
+
+        game_transferEquipment(new Args().add("sword").add(BOB).serialize());
+
+        const sword = readEquipment("sword");
+        expect(sword.owner.toString()).toBe(BOB);
+        expect(sword.equippedBy).toBe("");
+        expect(readCharacter("knight").weaponId).toBe("");
+    });
+
+    test("an item cannot be worn by two characters", () => {
+        setup();
+        equip("knight", "sword");
+
+        // Both characters and the sword belong to the caller; only the equippedBy check can fail
+        expect(equipSwordOnSquire).toThrow("equipment already equipped");
+        clearReentrancyLock();
+
+        expect(readEquipment("sword").equippedBy).toBe("knight");
+        expect(readCharacter("knight").weaponId).toBe("sword");
+        expect(readCharacter("squire").weaponId).toBe("");
+    });
+
+    test("unequipping clears the back-reference and the slot", () => {
+        setup();
+        createEquipment("mail", ALICE, ARMOR, RARITY_RARE);
+        actAs(ALICE);
+        equip("knight", "sword");
+        equip("knight", "mail");
+
+        game_unequipItem(new Args().add("sword").serialize());
+
+        expect(readEquipment("sword").equippedBy).toBe("");
+        const knight = readCharacter("knight");
+        expect(knight.weaponId).toBe("");
+        expect(knight.armorId).toBe("mail");
+
+        // Free again, so the other character may now wear it
+        equip("squire", "sword");
+        expect(readEquipment("sword").equippedBy).toBe("squire");
+        expect(readCharacter("squire").weaponId).toBe("sword");
+    });
+
+    test("equipping over an occupied slot releases the previous item", () => {
+        setup();
+        createEquipment("axe", ALICE, WEAPON, RARITY_RARE);
+        actAs(ALICE);
+        equip("knight", "sword");
+        equip("knight", "axe");
+
+        expect(readCharacter("knight").weaponId).toBe("axe");
+        expect(readEquipment("axe").equippedBy).toBe("knight");
+        expect(readEquipment("sword").equippedBy).toBe("");
+    });
+});
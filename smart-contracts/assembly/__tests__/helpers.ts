@@ -0,0 +1,235 @@
+import { Args, stringToBytes } from "@massalabs/as-types";
+import { Context, Storage, changeCallStack, resetStorage, setDeployContext, sha256 } from "@massalabs/massa-as-sdk";
+import {
+    Battle,
+    Character,
+    Equipment,
+    LOCKED_KEY,
+    game_acceptChallenge,
+    game_constructor,
+    game_createBattle,
+    game_createCharacter,
+    game_createEquipment,
+    game_decideWildcard,
+    game_executeTurn,
+} from "../contracts/game";
+
+// Shared fixtures for the game specs: accounts, storage access and a commit-reveal duel driver.
+
+export const CONTRACT = "AS12BqZEQ6sByhRLyEuf0YbQmcF2PsDdkNNG1akBJu9XcjZA1eT";
+export const ADMIN = "AU12UBnqTHDQALpocVBnkPNy7y5CndUJQTLutaVDDFgMJcq5kQiKq";
+export const ALICE = "AU12E6N5BFAdC2wyiBV6VJjqkWhpz1kLVp2XpbRdSnL1mKjCWT6oR";
+export const BOB = "AU1qDAxGJ387ETi9JRQzZWSPKYq4YPXrFvdiE4VoXUaiAt38JFEC";
+
+/**
+ * Makes `address` the caller of the next contract calls.
+ *
+ * @param {string} address - Account to act as.
+ */
+export function actAs(address: string): void {
+    changeCallStack(address + " , " + CONTRACT);
+}
+
+/**
+ * Wipes the datastore and deploys the game with ADMIN as deployer and caller.
+ */
+export function deployGame(): void {
+    resetStorage();
+    setDeployContext(ADMIN);
+    game_constructor([]);
+    actAs(ADMIN);
+}
+
+/**
+ * Releases the reentrancy guard left behind by a call that aborted under `toThrow`
+ * (the mock does not roll storage back).
+ */
+export function clearReentrancyLock(): void {
+    Storage.del(stringToBytes(LOCKED_KEY));
+}
+
+/**
+ * Busy-waits on the mocked clock (wall time).
+ *
+ * @param {u64} ms - Milliseconds to wait.
+ */
+export function waitMs(ms: u64): void {
+    const until = Context.timestamp() + ms;
+    while (Context.timestamp() < until) {
+        // spin
+    }
+}
+
+export function createCharacter(owner: string, id: string, characterClass: u8): void {
+    actAs(owner);
+    game_createCharacter(new Args().add(id).add(characterClass).add(id).serialize());
+}
+
+export function readCharacter(id: string): Character {
+    return Character.deserialize(Storage.get<StaticArray<u8>>(stringToBytes("character:" + id)));
+}
+
+export function writeCharacter(id: string, character: Character): void {
+    Storage.set<StaticArray<u8>>(stringToBytes("character:" + id), character.serialize());
+}
+
+/**
+ * Overwrites a character's combat stats so rolls cannot change the outcome:
+ * a fixed damage value, no crits and no dodges.
+ */
+export function setFixedStats(id: string, maxHp: u64, damage: u16, defense: u16): void {
+    const c = readCharacter(id);
+    c.maxHp = maxHp;
+    c.currentHp = maxHp;
+    c.baseDamageMin = damage;
+    c.baseDamageMax = damage;
+    c.critChance = 0;
+    c.dodgeChance = 0;
+    c.defense = defense;
+    writeCharacter(id, c);
+}
+
+export function readBattle(id: string): Battle {
+    return Battle.deserialize(Storage.get<StaticArray<u8>>(stringToBytes("battle:" + id)));
+}
+
+export function writeBattle(id: string, battle: Battle): void {
+    Storage.set<StaticArray<u8>>(stringToBytes("battle:" + id), battle.serialize());
+}
+
+/**
+ * Mints an item through the admin entrypoint and restores ADMIN as the caller.
+ */
+export function createEquipment(id: string, owner: string, type: u8, rarity: u8): void {
+    actAs(ADMIN);
+    game_createEquipment(new Args().add(id).add(owner).add(type).add(rarity).serialize());
+}
+
+export function readEquipment(id: string): Equipment {
+    return Equipment.deserialize(Storage.get<StaticArray<u8>>(stringToBytes("equipment:" + id)));
+}
+
+export function hasStorageKey(key: string): bool {
+    return Storage.has(stringToBytes(key));
+}
+
+const HEX = "0123456789abcdef";
+
+/**
+ * Commitment for a secret and the action it will be revealed with, computed like the
+ * contract does: hex(sha256("<secret>:<stance>:<useSpecial 0|1>:<skillSlot>")).
+ * The mock's sha256 returns the hex text of the digest rather than its 32 bytes, so
+ * this is 128 characters long in specs and cannot go through the entrypoints'
+ * length check; see Duel.commit.
+ */
+export function commitmentOf(secret: string, stance: u8, useSpecial: bool, skillSlot: u8): string {
+    const preimage = secret + ":" + stance.toString() + ":" + (useSpecial ? "1" : "0") + ":" + skillSlot.toString();
+    const digest = sha256(stringToBytes(preimage));
+    let out = "";
+    for (let i = 0; i < digest.length; i++) {
+        out += HEX.charAt((digest[i] >> 4) as i32) + HEX.charAt((digest[i] & 0x0f) as i32);
+    }
+    return out;
+}
+
+/**
+ * Drives a commit-reveal battle between two characters. Secrets are derived from
+ * the battle id, the side and a per-side counter, so replaying the same duel
+ * replays the same rolls. Commitments are written into the battle record directly
+ * (see commitmentOf); reveals go through game_executeTurn. Each side keeps a
+ * commitment to a plain balanced swing posted, and turn() re-commits it to the
+ * action actually played just before revealing.
+ */
+export class Duel {
+    battleId: string;
+    char1: string;
+    char2: string;
+    owner1: string;
+    owner2: string;
+    reveals1: i32 = 0;
+    reveals2: i32 = 0;
+
+    constructor(battleId: string, char1: string, owner1: string, char2: string, owner2: string) {
+        this.battleId = battleId;
+        this.char1 = char1;
+        this.char2 = char2;
+        this.owner1 = owner1;
+        this.owner2 = owner2;
+    }
+
+    secret(side: u8, n: i32): string {
+        return this.battleId + ":p" + side.toString() + ":" + n.toString();
+    }
+
+    /**
+     * Challenge, accept, post both first commitments and wait for the start time.
+     */
+    start(): void {
+        const startTs = Context.timestamp() + 50;
+        actAs(this.owner1);
+        game_createBattle(new Args().add(this.battleId).add(this.char1).add(this.char2).add(startTs).serialize());
+        actAs(this.owner2);
+        game_acceptChallenge(new Args().add(this.battleId).serialize());
+        this.commit(1);
+        this.commit(2);
+        while (Context.timestamp() < startTs) {
+            // wait for startTs
+        }
+    }
+
+    /**
+     * Posts the commitment for `side`'s next unrevealed secret, bound to the given action.
+     */
+    commit(side: u8, stance: u8 = 0, useSpecial: bool = false, skillSlot: u8 = 0): void {
+        const battle = this.battle();
+        const n = side == 1 ? this.reveals1 : this.reveals2;
+        const commitment = commitmentOf(this.secret(side, n), stance, useSpecial, skillSlot);
+        if (side == 1) battle.player1Commitment = commitment;
+        else battle.player2Commitment = commitment;
+        writeBattle(this.battleId, battle);
+    }
+
+    battle(): Battle {
+        return readBattle(this.battleId);
+    }
+
+    /**
+     * Arguments for the side to move: reveal its outstanding secret.
+     */
+    turnArgs(stance: u8, useSpecial: bool, skillSlot: u8): Args {
+        const side: u8 = this.battle().currentTurn;
+        const n = side == 1 ? this.reveals1 : this.reveals2;
+        return new Args()
+            .add(this.battleId)
+            .add(side == 1 ? this.char1 : this.char2)
+            .add(stance)
+            .add(useSpecial)
+            .add(skillSlot)
+            .add(this.secret(side, n));
+    }
+
+    /**
+     * Plays one turn for the side to move. A wildcard drawn on the way is declined by
+     * both players and the turn is replayed with the next secret.
+     */
+    turn(stance: u8 = 0, useSpecial: bool = false, skillSlot: u8 = 0): void {
+        const turnNumber = this.battle().turnNumber;
+        while (!this.battle().isFinished && this.battle().turnNumber == turnNumber) {
+            const side: u8 = this.battle().currentTurn;
+            this.commit(side, stance, useSpecial, skillSlot);
+            actAs(side == 1 ? this.owner1 : this.owner2);
+            game_executeTurn(this.turnArgs(stance, useSpecial, skillSlot).serialize());
+            if (side == 1) this.reveals1 += 1;
+            else this.reveals2 += 1;
+            this.commit(side);
+            if (this.battle().wildcardActive) this.declineWildcard();
+        }
+    }
+
+    declineWildcard(): void {
+        actAs(this.owner1);
+        game_decideWildcard(new Args().add(this.battleId).add(false).add(this.char1).serialize());
+        actAs(this.owner2);
+        game_decideWildcard(new Args().add(this.battleId).add(false).add(this.char2).serialize());
+    }
+}
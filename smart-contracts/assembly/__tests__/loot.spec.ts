@@ -0,0 +1,69 @@
+import { Args } from "@massalabs/as-types";
+import { CLASS_MAGE, game_finalizeBattle, game_setLootDropChance, startBattleBot } from "../contracts/game";
+import {
+    ADMIN,
+    ALICE,
+    BOB,
+    Duel,
+    actAs,
+    createCharacter,
+    deployGame,
+    hasStorageKey,
+    readEquipment,
+    setFixedStats,
+    waitMs,
+} from "./helpers";
+
+// Two mages that kill each other in one hit, with every drop roll guaranteed to hit
+function setupDuel(owner2: string): Duel {
+    deployGame();
+    game_setLootDropChance(new Args().add(u64(10000)).add(u64(10000)).serialize());
+    createCharacter(ALICE, "one", CLASS_MAGE);
+    createCharacter(owner2, "two", CLASS_MAGE);
+    setFixedStats("one", 10, 10, 0);
+    setFixedStats("two", 10, 10, 0);
+    const duel = new Duel("1", "one", ALICE, "two", owner2);
+    duel.start();
+    return duel;
+}
+
+function finalize(): void {
+    actAs(ADMIN);
+    game_finalizeBattle(new Args().add("1").serialize());
+}
+
+describe("loot drops", () => {
+    test("are minted to both players of a fought battle", () => {
+        const duel = setupDuel(BOB);
+        duel.turn();
+        expect(duel.battle().winner).toBe(1);
+        finalize();
+
+        expect(readEquipment("loot-1-1").owner.toString()).toBe(ALICE);
+        expect(readEquipment("loot-1-2").owner.toString()).toBe(BOB);
+    });
+
+    test("are skipped when one owner plays both sides", () => {
+        const duel = setupDuel(ALICE);
+        duel.turn();
+        expect(duel.battle().isFinished).toBe(true);
+        finalize();
+
+        expect(duel.battle().isFinalized).toBe(true);
+        expect(hasStorageKey("equipment:loot-1-1")).toBe(false);
+        expect(hasStorageKey("equipment:loot-1-2")).toBe(false);
+    });
+
+    test("are skipped for a battle decided before any turn resolved", () => {
+        const duel = setupDuel(BOB);
+        waitMs(duel.battle().turnTimeout + 50);
+        actAs(ADMIN);
+        startBattleBot(new Args().add(u64(1)).serialize());
+        expect(duel.battle().winner).toBe(2);
+        finalize();
+
+        expect(duel.battle().isFinalized).toBe(true);
+        expect(hasStorageKey("equipment:loot-1-1")).toBe(false);
+        expect(hasStorageKey("equipment:loot-1-2")).toBe(false);
+    });
+});
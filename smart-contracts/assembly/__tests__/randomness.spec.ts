@@ -0,0 +1,155 @@
+import { Args } from "@massalabs/as-types";
+import {
+    BATTLE_STATUS_FINISHED,
+    BATTLE_STATUS_VOIDED,
+    CLASS_ASSASSIN,
+    CLASS_WARRIOR,
+    game_executeTurn,
+    startBattleBot,
+} from "../contracts/game";
+import {
+    ADMIN,
+    ALICE,
+    BOB,
+    Duel,
+    actAs,
+    clearReentrancyLock,
+    commitmentOf,
+    createCharacter,
+    deployGame,
+    readBattle,
+    waitMs,
+    writeBattle,
+} from "./helpers";
+
+const TURNS = 8;
+
+// Snapshot after every turn of a scripted duel: seed and both HP totals
+function playScriptedDuel(): string[] {
+    deployGame();
+    createCharacter(ALICE, "warrior", CLASS_WARRIOR);
+    createCharacter(BOB, "assassin", CLASS_ASSASSIN);
+    const duel = new Duel("1", "warrior", ALICE, "assassin", BOB);
+    duel.start();
+
+    const log: string[] = [];
+    for (let i = 0; i < TURNS && !duel.battle().isFinished; i++) {
+        duel.turn();
+        const b = duel.battle();
+        log.push(b.randomSeed.toString() + "|" + b.player1Hp.toString() + "/" + b.player2Hp.toString());
+    }
+    return log;
+}
+
+// Battle "1" is set up with a wrong secret for player 1's first turn
+let mismatchArgs: StaticArray<u8> = [];
+
+function executeMismatchedReveal(): void {
+    game_executeTurn(mismatchArgs);
+}
+
+describe("commit-reveal randomness", () => {
+    test("the same secrets replay the same HP, crit and dodge outcomes", () => {
+        const first = playScriptedDuel();
+        const second = playScriptedDuel();
+        expect(first.length).toBeGreaterThan(0);
+        expect(second.length).toBe(first.length);
+        for (let i = 0; i < first.length; i++) {
+            expect(second[i]).toBe(first[i]);
+        }
+    });
+
+    test("a reveal that does not match the commitment is rejected", () => {
+        deployGame();
+        createCharacter(ALICE, "warrior", CLASS_WARRIOR);
+        createCharacter(BOB, "assassin", CLASS_ASSASSIN);
+        const duel = new Duel("1", "warrior", ALICE, "assassin", BOB);
+        duel.start();
+        const before = duel.battle();
+
+        // Everything else about the turn is valid, so only the commitment check can fail
+        mismatchArgs = new Args()
+            .add("1")
+            .add("warrior")
+            .add(u8(0))
+            .add(false)
+            .add(u8(0))
+            .add("not the committed secret")
+            .serialize();
+        actAs(ALICE);
+        expect(executeMismatchedReveal).toThrow("reveal does not match commitment");
+        clearReentrancyLock();
+
+        const after = duel.battle();
+        expect(after.turnNumber).toBe(before.turnNumber);
+        expect(after.player1Commitment).toBe(commitmentOf(duel.secret(1, 0), 0, false, 0));
+        expect(after.randomSeed).toBe(before.randomSeed);
+
+        // The committed secret still goes through
+        duel.turn();
+        expect(duel.battle().turnNumber).toBe(before.turnNumber + 1);
+    });
+
+    test("the committed secret is rejected with a different action", () => {
+        deployGame();
+        createCharacter(ALICE, "warrior", CLASS_WARRIOR);
+        createCharacter(BOB, "assassin", CLASS_ASSASSIN);
+        const duel = new Duel("1", "warrior", ALICE, "assassin", BOB);
+        duel.start();
+        const before = duel.battle();
+
+        // The right secret, but committed with a balanced stance and revealed with an aggressive one
+        mismatchArgs = duel.turnArgs(1, false, 0).serialize();
+        actAs(ALICE);
+        expect(executeMismatchedReveal).toThrow("reveal does not match commitment");
+        clearReentrancyLock();
+
+        const after = duel.battle();
+        expect(after.turnNumber).toBe(before.turnNumber);
+        expect(after.randomSeed).toBe(before.randomSeed);
+    });
+
+    test("withholding a reveal ends in a turn-timeout forfeit", () => {
+        deployGame();
+        createCharacter(ALICE, "warrior", CLASS_WARRIOR);
+        createCharacter(BOB, "assassin", CLASS_ASSASSIN);
+        const duel = new Duel("1", "warrior", ALICE, "assassin", BOB);
+        duel.start();
+
+        // Player 1 never reveals; both commitments are posted, so the stall is theirs
+        const battle = duel.battle();
+        expect(battle.currentTurn).toBe(1);
+        expect(battle.player2Commitment.length).toBeGreaterThan(0);
+        waitMs(battle.turnTimeout + 50);
+
+        actAs(ADMIN);
+        startBattleBot(new Args().add(u64(1)).serialize());
+
+        const after = readBattle("1");
+        expect(after.status).toBe(BATTLE_STATUS_FINISHED);
+        expect(after.isFinished).toBe(true);
+        expect(after.winner).toBe(2);
+    });
+
+    test("a battle neither side committed to is voided by the turn timeout", () => {
+        deployGame();
+        createCharacter(ALICE, "warrior", CLASS_WARRIOR);
+        createCharacter(BOB, "assassin", CLASS_ASSASSIN);
+        const duel = new Duel("1", "warrior", ALICE, "assassin", BOB);
+        duel.start();
+
+        const battle = duel.battle();
+        battle.player1Commitment = "";
+        battle.player2Commitment = "";
+        writeBattle("1", battle);
+        waitMs(battle.turnTimeout + 50);
+
+        actAs(ADMIN);
+        startBattleBot(new Args().add(u64(1)).serialize());
+
+        const after = readBattle("1");
+        expect(after.status).toBe(BATTLE_STATUS_VOIDED);
+        expect(after.isFinished).toBe(false);
+        expect(after.winner).toBe(0);
+    });
+});
@@ -0,0 +1,193 @@
+import {
+    CLASS_TRICKSTER,
+    STANCE_AGGRESSIVE,
+    STANCE_BALANCED,
+    STANCE_COUNTER,
+    STANCE_DEFENSIVE,
+    STANCE_EVASIVE,
+    game_executeTurn,
+} from "../contracts/game";
+import {
+    ALICE,
+    BOB,
+    Duel,
+    actAs,
+    clearReentrancyLock,
+    createCharacter,
+    deployGame,
+    readCharacter,
+    setFixedStats,
+    writeBattle,
+    writeCharacter,
+} from "./helpers";
+
+const HP: u64 = 10000;
+
+// Two Tricksters (no damage passives) with fixed damage, no crits and no dodges.
+// Player 1 ("one", Alice) hits for 100; player 2 ("two", Bob) hits for `damage2`.
+// Wildcards are declined by Duel.turn.
+function setupDuel(defense2: u16, damage2: u16): Duel {
+    deployGame();
+    createCharacter(ALICE, "one", CLASS_TRICKSTER);
+    createCharacter(BOB, "two", CLASS_TRICKSTER);
+    setFixedStats("one", HP, 100, 0);
+    setFixedStats("two", HP, damage2, defense2);
+    const duel = new Duel("1", "one", ALICE, "two", BOB);
+    duel.start();
+    return duel;
+}
+
+// Damage player 1 deals with one swing
+function swing(duel: Duel, stance: u8, useSpecial: bool = false): u64 {
+    const before = duel.battle().player2Hp;
+    duel.turn(stance, useSpecial);
+    return before - duel.battle().player2Hp;
+}
+
+// Duel whose next turn tries a special before it is charged
+let prematureSpecial = new Duel("", "", ALICE, "", BOB);
+
+function executePrematureSpecial(): void {
+    actAs(ALICE);
+    game_executeTurn(prematureSpecial.turnArgs(STANCE_BALANCED, true, 0).serialize());
+}
+
+describe("stance modifiers", () => {
+    test("scale the attacker's damage", () => {
+        // Player 2's replies keep resetting player 1's combo
+        const duel = setupDuel(0, 10);
+
+        expect(swing(duel, STANCE_BALANCED)).toBe(100);
+        duel.turn();
+        expect(swing(duel, STANCE_AGGRESSIVE)).toBe(130);
+        duel.turn();
+        expect(swing(duel, STANCE_DEFENSIVE)).toBe(80);
+        duel.turn();
+        expect(swing(duel, STANCE_COUNTER)).toBe(90);
+        duel.turn();
+        expect(swing(duel, STANCE_EVASIVE)).toBe(85);
+    });
+
+    test("scale the defender's flat defense by its last stance", () => {
+        const duel = setupDuel(20, 10);
+
+        expect(swing(duel, STANCE_BALANCED)).toBe(80);
+        duel.turn(STANCE_AGGRESSIVE); // 70% defense
+        expect(swing(duel, STANCE_BALANCED)).toBe(86);
+        duel.turn(STANCE_DEFENSIVE); // 150% defense
+        expect(swing(duel, STANCE_BALANCED)).toBe(70);
+        duel.turn(STANCE_COUNTER);
+        expect(swing(duel, STANCE_BALANCED)).toBe(80);
+    });
+
+    test("evasive adds dodge chance for the defender", () => {
+        // Same secrets, so both duels roll the same dodge values on every swing
+        let balancedDodges = 0;
+        let evasiveDodges = 0;
+        for (let run = 0; run < 2; run++) {
+            const duel = setupDuel(0, 10);
+            const defenderStance = run == 0 ? STANCE_BALANCED : STANCE_EVASIVE;
+            for (let i = 0; i < 20; i++) {
+                const dealt = swing(duel, STANCE_BALANCED);
+                expect(dealt == 0 || dealt == 100).toBe(true);
+                if (dealt == 0) {
+                    if (run == 0) balancedDodges++;
+                    else evasiveDodges++;
+                }
+                duel.turn(defenderStance);
+            }
+        }
+        expect(balancedDodges).toBe(0);
+        expect(evasiveDodges).toBeGreaterThan(0);
+        expect(evasiveDodges).toBeLessThan(20);
+    });
+
+    test("change how much combo a landed hit builds", () => {
+        // Player 2 deals no damage, so nothing resets player 1's streak
+        const duel = setupDuel(0, 0);
+
+        swing(duel, STANCE_AGGRESSIVE);
+        expect(duel.battle().player1ComboCount).toBe(2);
+        duel.turn();
+        swing(duel, STANCE_DEFENSIVE);
+        expect(duel.battle().player1ComboCount).toBe(2);
+        duel.turn();
+        swing(duel, STANCE_COUNTER);
+        expect(duel.battle().player1ComboCount).toBe(3);
+    });
+});
+
+describe("stance matchups", () => {
+    test("are judged against the defender's last stance", () => {
+        const duel = setupDuel(0, 10);
+
+        expect(swing(duel, STANCE_BALANCED)).toBe(100);
+        duel.turn(STANCE_AGGRESSIVE);
+        expect(swing(duel, STANCE_COUNTER)).toBe(90 + 22); // counter beats aggressive
+        duel.turn(STANCE_COUNTER);
+        expect(swing(duel, STANCE_AGGRESSIVE)).toBe(130 - 32); // aggressive loses to counter
+        duel.turn(STANCE_COUNTER);
+        expect(swing(duel, STANCE_EVASIVE)).toBe(85 + 21); // evasive beats counter
+        duel.turn(STANCE_AGGRESSIVE);
+        expect(swing(duel, STANCE_BALANCED)).toBe(100); // balanced never wins or loses
+    });
+});
+
+describe("special attack", () => {
+    test("is rejected until it is charged", () => {
+        const duel = setupDuel(0, 0);
+        prematureSpecial = duel;
+
+        // A valid turn in every other respect
+        expect(executePrematureSpecial).toThrow("special not ready");
+        clearReentrancyLock();
+        expect(duel.battle().turnNumber).toBe(0);
+    });
+
+    test("charges from a three-hit combo, then from a full meter", () => {
+        const duel = setupDuel(0, 0);
+        prematureSpecial = duel;
+
+        swing(duel, STANCE_BALANCED);
+        duel.turn();
+        swing(duel, STANCE_BALANCED);
+        duel.turn();
+        expect(executePrematureSpecial).toThrow("special not ready");
+        clearReentrancyLock();
+
+        swing(duel, STANCE_BALANCED);
+        duel.turn();
+        let b = duel.battle();
+        expect(b.player1ComboCount).toBe(3);
+        expect(b.player1SpecialMeter).toBe(75);
+
+        // The meter is not full, so the combo is spent (and its 20% bonus with it)
+        expect(swing(duel, STANCE_BALANCED, true)).toBe(175);
+        b = duel.battle();
+        expect(b.player1ComboCount).toBe(1);
+        expect(b.player1SpecialMeter).toBe(100);
+        duel.turn();
+
+        // A full meter is spent before the combo
+        expect(swing(duel, STANCE_BALANCED, true)).toBe(175);
+        b = duel.battle();
+        expect(b.player1SpecialMeter).toBe(25);
+        expect(b.player1ComboCount).toBe(2);
+    });
+
+    test("cannot be dodged", () => {
+        const duel = setupDuel(0, 10);
+        const two = readCharacter("two");
+        two.dodgeChance = 100;
+        writeCharacter("two", two);
+
+        expect(swing(duel, STANCE_BALANCED)).toBe(0);
+        duel.turn(STANCE_EVASIVE);
+
+        const b = duel.battle();
+        b.player1SpecialMeter = 100;
+        writeBattle("1", b);
+        // Aggressive beats evasive: 130 + 32, then 175%
+        expect(swing(duel, STANCE_AGGRESSIVE, true)).toBe(283);
+    });
+});
@@ -0,0 +1,128 @@
+import { Args } from "@massalabs/as-types";
+import {
+    CLASS_MAGE,
+    SKILL_CRITICAL_EYE,
+    SKILL_DODGE_MASTER,
+    SKILL_NONE,
+    SKILL_TARGET_SELF,
+    STATUS_EVASION,
+    game_updateSkill,
+} from "../contracts/game";
+import {
+    ADMIN,
+    ALICE,
+    BOB,
+    Duel,
+    actAs,
+    createCharacter,
+    deployGame,
+    readCharacter,
+    setFixedStats,
+    writeCharacter,
+} from "./helpers";
+
+const HP: u64 = 500;
+const HIT: u64 = 10;
+
+// Two mages with a fixed 10 damage, no crits, no dodges and no defense, so every
+// swing lands for exactly HIT unless an effect says otherwise. Each gets the given
+// skill in slot 1 (SKILL_NONE for none).
+function setupDuel(casterSkill: u8, rivalSkill: u8): Duel {
+    deployGame();
+    createCharacter(ALICE, "caster", CLASS_MAGE);
+    createCharacter(BOB, "rival", CLASS_MAGE);
+    setFixedStats("caster", HP, u16(HIT), 0);
+    setFixedStats("rival", HP, u16(HIT), 0);
+    giveSkill("caster", casterSkill);
+    giveSkill("rival", rivalSkill);
+
+    // Dodge Master at 100% evasion turns "raises dodge" into "always dodges"
+    actAs(ADMIN);
+    game_updateSkill(
+        new Args()
+            .add(SKILL_DODGE_MASTER)
+            .add("Dodge Master")
+            .add(u8(5))
+            .add(u8(50))
+            .add(u32(10))
+            .add(u8(0))
+            .add(u32(100))
+            .add(u8(0))
+            .add(STATUS_EVASION)
+            .add(u8(2))
+            .add(SKILL_TARGET_SELF)
+            .add(u8(0))
+            .add(u32(100))
+            .serialize(),
+    );
+
+    const duel = new Duel("1", "caster", ALICE, "rival", BOB);
+    duel.start();
+    return duel;
+}
+
+function giveSkill(charId: string, skillId: u8): void {
+    const c = readCharacter(charId);
+    c.skill1 = skillId;
+    writeCharacter(charId, c);
+}
+
+describe("evasion", () => {
+    test("protects the caster on the opponent's next turn, not on the caster's own swing", () => {
+        const duel = setupDuel(SKILL_DODGE_MASTER, SKILL_NONE);
+
+        duel.turn(0, false, 1); // caster casts and swings
+        let b = duel.battle();
+        expect(b.player2Hp).toBe(HP - HIT);
+        expect(b.player1EvasionTurns).toBe(1);
+        expect(b.player1EvasionBonus).toBe(100);
+
+        duel.turn(); // rival swings into the evasion
+        b = duel.battle();
+        expect(b.player1Hp).toBe(HP);
+        expect(b.player2ComboCount).toBe(0);
+    });
+
+    test("expires after its duration", () => {
+        const duel = setupDuel(SKILL_DODGE_MASTER, SKILL_NONE);
+
+        duel.turn(0, false, 1);
+        duel.turn();
+        expect(duel.battle().player1EvasionTurns).toBe(0);
+
+        duel.turn(); // caster, no skill
+        duel.turn(); // rival connects again
+        const b = duel.battle();
+        expect(b.player1Hp).toBe(HP - HIT);
+        expect(b.player2Hp).toBe(HP - 2 * HIT);
+    });
+});
+
+describe("crit ready", () => {
+    test("survives a dodged swing and is spent by the first hit that lands", () => {
+        const duel = setupDuel(SKILL_CRITICAL_EYE, SKILL_DODGE_MASTER);
+
+        duel.turn(); // caster hits
+        duel.turn(0, false, 1); // rival turns on evasion
+        expect(duel.battle().player2Hp).toBe(HP - HIT);
+
+        duel.turn(0, false, 1); // caster readies a crit, but the swing is dodged
+        let b = duel.battle();
+        expect(b.player2Hp).toBe(HP - HIT);
+        expect(b.player1CritReadyTurns).toBe(1);
+
+        duel.turn(); // rival
+        b = duel.battle();
+        expect(b.player1CritReadyTurns).toBe(1);
+        expect(b.player2EvasionTurns).toBe(0);
+
+        duel.turn(); // first landed hit crits (2x) and spends the buff
+        b = duel.battle();
+        expect(b.player2Hp).toBe(HP - HIT - 2 * HIT);
+        expect(b.player1CritReadyTurns).toBe(0);
+
+        duel.turn(); // rival
+        duel.turn(); // back to a normal hit
+        expect(duel.battle().player2Hp).toBe(HP - HIT - 2 * HIT - HIT);
+    });
+});
@@ -19,12 +19,15 @@ import {
   generateEvent,
   callerHasWriteAccess,
   balance,
+  sha256,
+  call,
   // asyncCall and Slot require massa-as-sdk >= 1.10 (not yet available)
   // asyncCall,
   // Slot,
 } from '@massalabs/massa-as-sdk';
-import { Args, stringToBytes, bytesToString as bytesToStr } from '@massalabs/as-types';
+import { Args, stringToBytes, bytesToString as bytesToStr, u64ToBytes, boolToByte, byteToBool } from '@massalabs/as-types';
 import { IERC20 } from '../interfaces/IERC20';
+import { IRandomnessSource } from '../interfaces/IRandomnessSource';
 import { u256, u128 } from 'as-bignum/assembly';
 
 // Shared constants
@@ -51,6 +54,61 @@ export const MULTIPOOL_COUNT_KEY = 'multipool_count';
 export const TOTAL_BETS_PLACED_KEY = 'total_bets_placed';
 export const TOTAL_BETS_CLAIMED_KEY = 'total_bets_claimed';
 export const EQUIPMENT_COUNT_KEY = 'equipment_count';
+export const EQUIPMENT_BURNED_KEY = 'equipment_burned';
+
+// Randomness source (empty = commit-reveal between the two players)
+export const RANDOMNESS_SOURCE_KEY = 'randomness_source';
+export const RANDOMNESS_CALLBACK = 'game_fulfillRandomness';
+export const RANDOMNESS_FULFILL_TIMEOUT: u64 = 60_000; // ms a parked turn waits before it can be re-requested
+export const MAX_RANDOMNESS_RETRIES: u8 = 2; // Re-requests before the battle is voided (tournament: decided on HP)
+
+// Equipment repair pricing (per missing durability point, multiplied by rarity + 1)
+export const REPAIR_TOKEN_KEY = 'repair_token'; // ERC20 accepted for repairs (set by admin)
+export const REPAIR_TOKEN_COST_PER_POINT: u64 = 10;
+export const REPAIR_XP_COST_PER_POINT: u64 = 1;
+export const REPAIR_METHOD_TOKEN: u8 = 0;
+export const REPAIR_METHOD_XP: u8 = 1;
+
+// Equipment NFT (MRC-721 surface over Equipment; the tokenId is the equipmentId)
+export const NFT_NAME = 'Battle Arena Equipment';
+export const NFT_SYMBOL = 'BAEQ';
+export const NFT_BASE_URI_KEY = 'nft_base_uri'; // tokenURI = base URI + equipmentId (set by admin)
+export const NFT_RECEIVED_HOOK = 'onMRC721Received'; // Called on contract receivers by safeTransferFrom
+
+// Loot drops rolled on finalize (admin-tunable; unset keys fall back to the defaults)
+export const LOOT_WINNER_CHANCE_KEY = 'loot_winner_chance_bps';
+export const LOOT_LOSER_CHANCE_KEY = 'loot_loser_chance_bps';
+export const DEFAULT_LOOT_WINNER_CHANCE_BPS: u64 = 2500; // 25%
+export const DEFAULT_LOOT_LOSER_CHANCE_BPS: u64 = 500; // 5%
+export const LOOT_BAND_VARIANCE_PCT: u64 = 25; // Default bands span +/-25% around the minted stats of a rarity
+export const LOOT_SALT: u64 = 0x4c4f4f54; // Keeps loot rolls independent of the turn rolls on the same seed
+
+// Crafting: fusion burns FUSION_INPUT_COUNT items of one rarity into the next rarity.
+// Salvage yield and craft cost are indexed by rarity; crafting always costs more than salvage returns.
+export const FUSION_INPUT_COUNT: i32 = 3;
+const SALVAGE_YIELD: StaticArray<u64> = [10, 30, 90, 270];
+const CRAFT_COST: StaticArray<u64> = [25, 75, 225, 675];
+
+// Stance profiles indexed by STANCE_*: the attacker's stance scales its damage and
+// combo gain, the defender's last stance scales the defense and dodge it brings
+const STANCE_DAMAGE_PCT: StaticArray<u64> = [100, 130, 80, 90, 85];
+const STANCE_DEFENSE_PCT: StaticArray<u64> = [100, 70, 150, 100, 80];
+const STANCE_DODGE_BONUS: StaticArray<u16> = [0, 0, 0, 0, 15];
+const STANCE_COMBO_GAIN: StaticArray<u8> = [1, 2, 0, 1, 1];
+
+// Marketplace (prices in any ERC20; the fee on each sale goes to the treasury)
+export const MARKET_LISTING_COUNT_KEY = 'market_listing_count';
+export const MARKET_FEE_KEY = 'market_fee_bps';
+export const DEFAULT_MARKET_FEE_BPS: u64 = 250; // 2.5%
+export const MAX_MARKET_FEE_BPS: u64 = 1000;
+export const MARKET_MIN_BID_INCREMENT_BPS: u64 = 500; // Each bid must beat the last by 5%
+export const MARKET_MIN_AUCTION_DURATION: u64 = 600_000; // 10 minutes
+export const MARKET_MAX_AUCTION_DURATION: u64 = 2_592_000_000; // 30 days
+export const LISTING_FIXED_PRICE: u8 = 0;
+export const LISTING_AUCTION: u8 = 1;
+export const LISTING_STATUS_ACTIVE: u8 = 0;
+export const LISTING_STATUS_SOLD: u8 = 1;
+export const LISTING_STATUS_CANCELLED: u8 = 2;
 
 // Treasury keys
 export const TREASURY_BALANCE_KEY = 'treasury_balance';
@@ -63,6 +121,11 @@ export const STATUS_STUN: u8 = 2; // Skip next turn
 export const STATUS_SHIELD: u8 = 4; // 30% damage reduction
 export const STATUS_RAGE: u8 = 8; // 50% damage increase
 export const STATUS_BURN: u8 = 16; // DOT: 8% max HP per turn
+export const STATUS_EVASION: u8 = 32; // Extra dodge chance while being attacked
+export const STATUS_CRIT_READY: u8 = 64; // Next landed hit crits; consumed by that hit instead of ticking down
+export const POISON_DOT_PCT: u64 = 5; // Per stack
+export const BURN_DOT_PCT: u64 = 8; // Per stack
+export const MAX_DOT_STACKS: u8 = 3;
 
 // Equipment rarity
 export const RARITY_COMMON: u8 = 0;
@@ -70,7 +133,7 @@ export const RARITY_RARE: u8 = 1;
 export const RARITY_EPIC: u8 = 2;
 export const RARITY_LEGENDARY: u8 = 3;
 
-// Skill types
+// Built-in skill ids (defaults in builtinSkillDefinition; the admin can override them in the registry)
 export const SKILL_NONE: u8 = 0;
 export const SKILL_POWER_STRIKE: u8 = 1; // 150% damage, 3 turn cooldown
 export const SKILL_HEAL: u8 = 2; // Restore 30% HP, 4 turn cooldown
@@ -83,6 +146,57 @@ export const SKILL_DODGE_MASTER: u8 = 8; // +50% dodge for 2 turns, 5 turn coold
 export const SKILL_BURN_AURA: u8 = 9; // Apply burn, 3 turn cooldown
 export const SKILL_COMBO_BREAKER: u8 = 10; // Reset enemy combo + deal damage, 4 turn cooldown
 
+// Skill definition targets and flags
+export const SKILL_TARGET_SELF: u8 = 0;
+export const SKILL_TARGET_ENEMY: u8 = 1;
+export const SKILL_FLAG_FORCE_CRIT: u8 = 1; // This turn's hit is a guaranteed crit
+export const SKILL_FLAG_RESET_ENEMY_COMBO: u8 = 2;
+export const MAX_SKILL_DAMAGE_MULTIPLIER: u16 = 500; // 5.0x
+export const SKILL_REGISTRY_IDS_KEY = 'skill_registry_ids'; // CSV of skill ids created beyond the built-in set
+
+// Character classes (Character.characterClass) and their turn-engine passives
+export const CLASS_WARRIOR: u8 = 0;
+export const CLASS_ASSASSIN: u8 = 1;
+export const CLASS_MAGE: u8 = 2;
+export const CLASS_TANK: u8 = 3;
+export const CLASS_TRICKSTER: u8 = 4;
+export const BASE_WILDCARD_CHANCE: u64 = 10; // % per turn
+export const TRICKSTER_WILDCARD_CHANCE: u64 = 25; // On the Trickster's own turns
+export const WARRIOR_RAGE_THRESHOLD: u8 = 4; // Hits landed or taken before rage triggers
+export const WARRIOR_RAGE_TURNS: u8 = 2;
+export const DEFAULT_CRIT_DAMAGE_PCT: u64 = 200;
+export const ASSASSIN_CRIT_DAMAGE_PCT: u64 = 250;
+export const ASSASSIN_BACKSTAB_STEP_PCT: u64 = 5; // +1 crit % per 5% of HP the target is missing
+export const ASSASSIN_BACKSTAB_MAX_CRIT: u64 = 20;
+export const TANK_REFLECT_PCT: u64 = 15; // Share of damage taken sent back to the attacker
+
+// Turn stances (game_executeTurn); aggressive > evasive > counter > aggressive
+export const STANCE_BALANCED: u8 = 0;
+export const STANCE_AGGRESSIVE: u8 = 1;
+export const STANCE_DEFENSIVE: u8 = 2;
+export const STANCE_COUNTER: u8 = 3;
+export const STANCE_EVASIVE: u8 = 4;
+export const STANCE_MATCHUP_PCT: u64 = 25; // Damage swing when one stance beats the other
+// Special attack: charged by a combo streak or a full meter
+export const SPECIAL_COMBO_THRESHOLD: u8 = 3;
+export const SPECIAL_METER_MAX: u8 = 100;
+export const SPECIAL_METER_PER_HIT: u8 = 25; // Landing a hit
+export const SPECIAL_METER_PER_HIT_TAKEN: u8 = 15; // Taking a hit
+export const SPECIAL_DAMAGE_PCT: u64 = 175; // Specials also cannot be dodged
+
+// Wildcard catalog (Battle.wildcardType). Each player accepts or declines within the
+// decision window; an undecided player counts as declining once it closes.
+export const WILDCARD_DOUBLE_OR_NOTHING: u8 = 0; // Each acceptor's next swing deals 2x or nothing
+export const WILDCARD_HP_SWAP: u8 = 1; // Both accept: HP totals swap (capped at each side's max)
+export const WILDCARD_ENERGY_SURGE: u8 = 2; // Each acceptor gains energy and pays HP for it
+export const WILDCARD_STATUS_CLEANSE: u8 = 3; // Lone acceptor drops its debuffs; both accept: every effect wiped
+export const WILDCARD_SUDDEN_DEATH: u8 = 4; // Both accept: both sides drop to a sliver of HP
+export const WILDCARD_TYPE_COUNT: u8 = 5;
+export const WILDCARD_DECISION_WINDOW: u64 = 10000; // 10s
+export const WILDCARD_ENERGY_SURGE_AMOUNT: u8 = 50;
+export const WILDCARD_ENERGY_SURGE_HP_PCT: u64 = 10; // Of battle max HP, never lethal
+export const WILDCARD_SUDDEN_DEATH_HP_PCT: u64 = 10; // Of battle max HP, at least 1
+
 // Skill costs (energy points)
 export const MAX_ENERGY: u8 = 100;
 export const ENERGY_PER_TURN: u8 = 20; // Regenerate 20 energy per turn
@@ -104,6 +218,13 @@ export const TOURNAMENT_BOT_CHECK_INTERVAL: u64 = 5; // Check every 5 slots
 export const TOURNAMENT_BOT_MAX_PER_CYCLE: u64 = 5; // Process max 5 tournaments per cycle
 export const TOURNAMENT_BOT_GAS_COST: u64 = 500_000_000;
 
+export const MATCHMAKING_BOT_ENABLED_KEY: string = 'matchmaking_bot_enabled';
+export const MATCHMAKING_BOT_COUNTER_KEY: string = 'matchmaking_bot_counter';
+export const MATCHMAKING_BOT_MAX_ITERATIONS: string = 'matchmaking_bot_max_iterations';
+export const MATCHMAKING_BOT_TOTAL_MATCHED: string = 'matchmaking_bot_total_matched';
+export const MATCHMAKING_BOT_MAX_PER_CYCLE: u64 = 5; // Create max 5 battles per cycle
+export const MATCHMAKING_BOT_GAS_COST: u64 = 500_000_000;
+
 export const PREDICTION_BOT_ENABLED_KEY: string = 'prediction_bot_enabled';
 export const PREDICTION_BOT_COUNTER_KEY: string = 'prediction_bot_counter';
 export const PREDICTION_BOT_MAX_ITERATIONS: string = 'prediction_bot_max_iterations';
@@ -112,10 +233,50 @@ export const PREDICTION_BOT_CHECK_INTERVAL: u64 = 4; // Check every 4 slots
 export const PREDICTION_BOT_MAX_PER_CYCLE: u64 = 15; // Process max 15 pools per cycle
 export const PREDICTION_BOT_GAS_COST: u64 = 500_000_000;
 
+// Battle lifecycle (Battle.status); isFinished mirrors BATTLE_STATUS_FINISHED
+export const BATTLE_STATUS_SCHEDULED: u8 = 0; // Created, waiting for startTs (and acceptance for challenges)
+export const BATTLE_STATUS_LIVE: u8 = 1;
+export const BATTLE_STATUS_AWAITING_WILDCARD: u8 = 2; // Turns paused until both players decide
+export const BATTLE_STATUS_FINISHED: u8 = 3;
+export const BATTLE_STATUS_CANCELLED: u8 = 4; // Cancelled, declined or expired before start
+export const BATTLE_STATUS_VOIDED: u8 = 5; // Voided by admin; no result
+
 // Battle turn timeout settings
 export const DEFAULT_TURN_TIMEOUT: u64 = 300; // 5 minutes in seconds
 export const MAX_BATTLE_DURATION: u64 = 3600; // 1 hour max total battle time
 
+// Matchmaking queue settings (timestamps are ms)
+export const MATCHMAKING_QUEUE_KEY = 'mm_queue'; // Comma-separated queued character IDs, oldest first
+export const MATCHMAKING_MAX_QUEUE: i32 = 64;
+export const MATCHMAKING_WIDEN_INTERVAL: u64 = 30_000; // Search window widens every 30s in queue
+export const MATCHMAKING_WIDEN_STEP: u64 = 50; // MMR added on each side per interval
+export const MATCHMAKING_MAX_WIDEN: u64 = 500;
+export const MATCHMAKING_BASE_LEVEL_GAP: u64 = 3; // Also grows by one level per interval
+export const MATCHMAKING_TICKET_TTL: u64 = 3_600_000; // Unmatched tickets are refunded after 1 hour
+export const MATCHMAKING_START_DELAY: u64 = 60_000; // Matched battles start 1 minute later
+
+// Elo rating settings (overridable by admin via game_setMmrConfig)
+export const MMR_K_FACTOR_KEY = 'mmr_k_factor';
+export const MMR_PROVISIONAL_K_KEY = 'mmr_provisional_k';
+export const MMR_PROVISIONAL_GAMES_KEY = 'mmr_provisional_games';
+export const MMR_FLOOR_KEY = 'mmr_floor';
+export const DEFAULT_MMR_K_FACTOR: u64 = 32;
+export const DEFAULT_MMR_PROVISIONAL_K: u64 = 64; // Faster movement while a character is new
+export const DEFAULT_MMR_PROVISIONAL_GAMES: u64 = 10; // Battles played before leaving provisional status
+export const DEFAULT_MMR_FLOOR: u64 = 100;
+
+// Battle XP rewards
+export const MAX_CHARACTER_LEVEL: u16 = 20;
+export const XP_PER_LEVEL: u64 = 200; // level * 200 XP needed for the next level
+export const XP_WIN_BASE: u64 = 100;
+export const XP_LOSS_BASE: u64 = 40;
+export const XP_PER_LEVEL_GAP: u64 = 10; // Bonus per level the opponent is above (penalty is half per level below)
+export const XP_MAX_LEVEL_GAP_BONUS: u64 = 100;
+export const XP_PER_TURN: u64 = 2;
+export const XP_MAX_LENGTH_BONUS: u64 = 60;
+export const XP_DAMAGE_DIVISOR: u64 = 10; // 1 XP per 10 damage dealt
+export const XP_MAX_DAMAGE_BONUS: u64 = 100;
+
 // ============================================================================
 // STORAGE HELPER FUNCTIONS - Consistent Key Management
 // ============================================================================
@@ -187,10 +348,11 @@ function setBool(key: string, value: bool): void {
 }
 
 /**
- * Delete a key from storage
+ * Delete a key from storage; absent keys are skipped (the runtime rejects deleting them)
  */
 function deleteKey(key: string): void {
-  Storage.del(stringToBytes(key));
+  const k = stringToBytes(key);
+  if (Storage.has(k)) Storage.del(k);
 }
 
 /**
@@ -247,7 +409,7 @@ export function storeBump(name: string, bump: u8): void { // placeholder (for pa
  * Game Contract
  * - Character creation
  * - Scheduled Battles (start_ts)
- * - Turn execution + simple RNG placeholder (use onchain VRF in production)
+ * - Turn execution driven by commit-reveal or oracle (IRandomnessSource) randomness
  * - Wildcards with decision windows
  * - Finalize battle & produce result (for Prediction contract to settle)
  * - Equipment system with NFT support
@@ -267,8 +429,10 @@ export class Equipment {
   critBonus: u16;
   dodgeBonus: u16;
   durability: u16; // Max uses before breaking
-  currentDurability: u16;
+  currentDurability: u16; // 0 = broken: no bonuses, cannot be equipped
   createdAt: u64;
+  defenseBonus: u16; // Flat damage reduction (armor)
+  equippedBy: string; // Character ID wearing this item ('' = not equipped)
 
   constructor() {
     this.equipmentId = '';
@@ -283,6 +447,8 @@ export class Equipment {
     this.durability = 100;
     this.currentDurability = 100;
     this.createdAt = 0;
+    this.defenseBonus = 0;
+    this.equippedBy = '';
   }
 
   serialize(): StaticArray<u8> {
@@ -299,6 +465,8 @@ export class Equipment {
     a.add(this.durability as u32);
     a.add(this.currentDurability as u32);
     a.add(this.createdAt);
+    a.add(this.defenseBonus as u32);
+    a.add(this.equippedBy);
     return a.serialize();
   }
 
@@ -317,6 +485,8 @@ export class Equipment {
     e.durability = a.nextU32().unwrap() as u16;
     e.currentDurability = a.nextU32().unwrap() as u16;
     e.createdAt = a.nextU64().unwrap();
+    e.defenseBonus = a.nextU32().unwrap() as u16;
+    e.equippedBy = a.nextString().unwrap();
     return e;
   }
 }
@@ -347,7 +517,7 @@ export class Character {
   skill2: u8; // Equipped skill slot 2
   skill3: u8; // Equipped skill slot 3
   learnedSkills: string; // Comma-separated list of learned skill IDs
-  currentEnergy: u8; // Current energy points (max 100)
+  currentEnergy: u8; // Out-of-battle energy (max 100); battles track their own on Battle
 
   constructor() {
     this.owner = new Address('0');
@@ -455,10 +625,10 @@ export class Battle {
   wildcardDecisionDeadline: u64;
   wildcardPlayer1Decision: i8; // -1 none, 0 no, 1 yes
   wildcardPlayer2Decision: i8;
-  // Status effects (bitmask)
+  // Status effects (bitmask of active effects, mirrored from the per-effect turns below)
   player1StatusEffects: u8;
   player2StatusEffects: u8;
-  player1StatusDuration: u8; // Turns remaining
+  player1StatusDuration: u8; // Longest remaining effect, in turns
   player2StatusDuration: u8;
   // Combo tracking
   player1ComboCount: u8;
@@ -474,6 +644,74 @@ export class Battle {
   lastTurnTimestamp: u64; // When the last turn was executed
   turnTimeout: u64; // Timeout in seconds for each turn
   battleDeadline: u64; // Absolute deadline for entire battle
+  // Commit-reveal randomness
+  player1Commitment: string; // hex sha256 of player 1's next secret ('' = none)
+  player2Commitment: string;
+  randomSeed: u64; // Accumulated seed, mixed with every reveal
+  // External randomness (VRF/oracle) - snapshot of the source at creation, '' = commit-reveal
+  randomnessSource: string;
+  awaitingRandomness: bool; // Turn parked until the source fulfills
+  pendingStance: u8; // Parked turn action
+  pendingUseSpecial: bool;
+  pendingSkillSlot: u8;
+  isFinalized: bool; // Result applied to characters (game_finalizeBattle)
+  // Tournament linking ('' = standalone battle)
+  tournamentId: string;
+  tournamentRound: u8;
+  tournamentSlot: u8; // Match index within the round's bracket
+  // Per-battle stats feeding the leaderboard
+  player1DamageDealt: u64;
+  player2DamageDealt: u64;
+  player1MaxCombo: u8;
+  player2MaxCombo: u8;
+  // Per-side stake escrowed by the contract, paid to the winner on finalize
+  stakeToken: string; // ERC20 address ('' = no stake)
+  stakeAmount: u64;
+  // Challenge state: direct challenges need player 2's consent before startTs
+  isAccepted: bool;
+  status: u8; // BATTLE_STATUS_*
+  stakeSettled: bool; // Wager paid out or refunded
+  // Per-effect turns remaining; DOTs also stack (each stack adds its % of max HP per tick)
+  player1PoisonTurns: u8;
+  player1StunTurns: u8; // Consumed by skipped turns rather than by the end-of-turn tick
+  player1ShieldTurns: u8;
+  player1RageTurns: u8;
+  player1BurnTurns: u8;
+  player2PoisonTurns: u8;
+  player2StunTurns: u8;
+  player2ShieldTurns: u8;
+  player2RageTurns: u8;
+  player2BurnTurns: u8;
+  player1PoisonStacks: u8;
+  player1BurnStacks: u8;
+  player2PoisonStacks: u8;
+  player2BurnStacks: u8;
+  player1EvasionTurns: u8;
+  player2EvasionTurns: u8;
+  player1EvasionBonus: u8; // Dodge % while evasion lasts
+  player2EvasionBonus: u8;
+  player1CritReadyTurns: u8; // 1 while a "next hit crits" buff is pending
+  player2CritReadyTurns: u8;
+  // Per-battle vitals, snapshotted from the characters when the battle goes live (never written back)
+  player1Energy: u8;
+  player2Energy: u8;
+  player1MaxHp: u64; // maxHp plus working equipment HP; caps healing
+  player2MaxHp: u64;
+  // Warrior passive: hits landed or taken toward the next automatic rage
+  player1RageMeter: u8;
+  player2RageMeter: u8;
+  // Stance each player took on their last turn (STANCE_*) and special attack charge
+  player1Stance: u8;
+  player2Stance: u8;
+  player1SpecialMeter: u8;
+  player2SpecialMeter: u8;
+  // Accepted double-or-nothing gamble, rolled on that player's next swing
+  player1DoubleOrNothing: bool;
+  player2DoubleOrNothing: bool;
+  // Outstanding oracle request for the parked turn
+  randomnessRequestId: string;
+  randomnessRequestedAt: u64;
+  randomnessRetries: u8;
 
   constructor() {
     this.player1Char = new Address('0');
@@ -508,6 +746,62 @@ export class Battle {
     this.lastTurnTimestamp = 0;
     this.turnTimeout = DEFAULT_TURN_TIMEOUT;
     this.battleDeadline = 0;
+    this.player1Commitment = '';
+    this.player2Commitment = '';
+    this.randomSeed = 0;
+    this.randomnessSource = '';
+    this.awaitingRandomness = false;
+    this.pendingStance = 0;
+    this.pendingUseSpecial = false;
+    this.pendingSkillSlot = 0;
+    this.isFinalized = false;
+    this.tournamentId = '';
+    this.tournamentRound = 0;
+    this.tournamentSlot = 0;
+    this.player1DamageDealt = 0;
+    this.player2DamageDealt = 0;
+    this.player1MaxCombo = 0;
+    this.player2MaxCombo = 0;
+    this.stakeToken = '';
+    this.stakeAmount = 0;
+    this.isAccepted = false;
+    this.status = BATTLE_STATUS_SCHEDULED;
+    this.stakeSettled = false;
+    this.player1PoisonTurns = 0;
+    this.player1StunTurns = 0;
+    this.player1ShieldTurns = 0;
+    this.player1RageTurns = 0;
+    this.player1BurnTurns = 0;
+    this.player2PoisonTurns = 0;
+    this.player2StunTurns = 0;
+    this.player2ShieldTurns = 0;
+    this.player2RageTurns = 0;
+    this.player2BurnTurns = 0;
+    this.player1PoisonStacks = 0;
+    this.player1BurnStacks = 0;
+    this.player2PoisonStacks = 0;
+    this.player2BurnStacks = 0;
+    this.player1EvasionTurns = 0;
+    this.player2EvasionTurns = 0;
+    this.player1EvasionBonus = 0;
+    this.player2EvasionBonus = 0;
+    this.player1CritReadyTurns = 0;
+    this.player2CritReadyTurns = 0;
+    this.player1Energy = MAX_ENERGY;
+    this.player2Energy = MAX_ENERGY;
+    this.player1MaxHp = 0;
+    this.player2MaxHp = 0;
+    this.player1RageMeter = 0;
+    this.player2RageMeter = 0;
+    this.player1Stance = STANCE_BALANCED;
+    this.player2Stance = STANCE_BALANCED;
+    this.player1SpecialMeter = 0;
+    this.player2SpecialMeter = 0;
+    this.player1DoubleOrNothing = false;
+    this.player2DoubleOrNothing = false;
+    this.randomnessRequestId = '';
+    this.randomnessRequestedAt = 0;
+    this.randomnessRetries = 0;
   }
 
   serialize(): StaticArray<u8> {
@@ -544,6 +838,62 @@ export class Battle {
     a.add(this.lastTurnTimestamp);
     a.add(this.turnTimeout);
     a.add(this.battleDeadline);
+    a.add(this.player1Commitment);
+    a.add(this.player2Commitment);
+    a.add(this.randomSeed);
+    a.add(this.randomnessSource);
+    a.add(this.awaitingRandomness);
+    a.add(this.pendingStance);
+    a.add(this.pendingUseSpecial);
+    a.add(this.pendingSkillSlot);
+    a.add(this.isFinalized);
+    a.add(this.tournamentId);
+    a.add(this.tournamentRound);
+    a.add(this.tournamentSlot);
+    a.add(this.player1DamageDealt);
+    a.add(this.player2DamageDealt);
+    a.add(this.player1MaxCombo);
+    a.add(this.player2MaxCombo);
+    a.add(this.stakeToken);
+    a.add(this.stakeAmount);
+    a.add(this.isAccepted);
+    a.add(this.status);
+    a.add(this.stakeSettled);
+    a.add(this.player1PoisonTurns);
+    a.add(this.player1StunTurns);
+    a.add(this.player1ShieldTurns);
+    a.add(this.player1RageTurns);
+    a.add(this.player1BurnTurns);
+    a.add(this.player2PoisonTurns);
+    a.add(this.player2StunTurns);
+    a.add(this.player2ShieldTurns);
+    a.add(this.player2RageTurns);
+    a.add(this.player2BurnTurns);
+    a.add(this.player1PoisonStacks);
+    a.add(this.player1BurnStacks);
+    a.add(this.player2PoisonStacks);
+    a.add(this.player2BurnStacks);
+    a.add(this.player1EvasionTurns);
+    a.add(this.player2EvasionTurns);
+    a.add(this.player1EvasionBonus);
+    a.add(this.player2EvasionBonus);
+    a.add(this.player1CritReadyTurns);
+    a.add(this.player2CritReadyTurns);
+    a.add(this.player1Energy);
+    a.add(this.player2Energy);
+    a.add(this.player1MaxHp);
+    a.add(this.player2MaxHp);
+    a.add(this.player1RageMeter);
+    a.add(this.player2RageMeter);
+    a.add(this.player1Stance);
+    a.add(this.player2Stance);
+    a.add(this.player1SpecialMeter);
+    a.add(this.player2SpecialMeter);
+    a.add(this.player1DoubleOrNothing);
+    a.add(this.player2DoubleOrNothing);
+    a.add(this.randomnessRequestId);
+    a.add(this.randomnessRequestedAt);
+    a.add(this.randomnessRetries);
     return a.serialize();
   }
 
@@ -582,6 +932,62 @@ export class Battle {
     b.lastTurnTimestamp = a.nextU64().unwrap();
     b.turnTimeout = a.nextU64().unwrap();
     b.battleDeadline = a.nextU64().unwrap();
+    b.player1Commitment = a.nextString().unwrap();
+    b.player2Commitment = a.nextString().unwrap();
+    b.randomSeed = a.nextU64().unwrap();
+    b.randomnessSource = a.nextString().unwrap();
+    b.awaitingRandomness = a.nextBool().unwrap();
+    b.pendingStance = a.nextU8().unwrap();
+    b.pendingUseSpecial = a.nextBool().unwrap();
+    b.pendingSkillSlot = a.nextU8().unwrap();
+    b.isFinalized = a.nextBool().unwrap();
+    b.tournamentId = a.nextString().unwrap();
+    b.tournamentRound = a.nextU8().unwrap();
+    b.tournamentSlot = a.nextU8().unwrap();
+    b.player1DamageDealt = a.nextU64().unwrap();
+    b.player2DamageDealt = a.nextU64().unwrap();
+    b.player1MaxCombo = a.nextU8().unwrap();
+    b.player2MaxCombo = a.nextU8().unwrap();
+    b.stakeToken = a.nextString().unwrap();
+    b.stakeAmount = a.nextU64().unwrap();
+    b.isAccepted = a.nextBool().unwrap();
+    b.status = a.nextU8().unwrap();
+    b.stakeSettled = a.nextBool().unwrap();
+    b.player1PoisonTurns = a.nextU8().unwrap();
+    b.player1StunTurns = a.nextU8().unwrap();
+    b.player1ShieldTurns = a.nextU8().unwrap();
+    b.player1RageTurns = a.nextU8().unwrap();
+    b.player1BurnTurns = a.nextU8().unwrap();
+    b.player2PoisonTurns = a.nextU8().unwrap();
+    b.player2StunTurns = a.nextU8().unwrap();
+    b.player2ShieldTurns = a.nextU8().unwrap();
+    b.player2RageTurns = a.nextU8().unwrap();
+    b.player2BurnTurns = a.nextU8().unwrap();
+    b.player1PoisonStacks = a.nextU8().unwrap();
+    b.player1BurnStacks = a.nextU8().unwrap();
+    b.player2PoisonStacks = a.nextU8().unwrap();
+    b.player2BurnStacks = a.nextU8().unwrap();
+    b.player1EvasionTurns = a.nextU8().unwrap();
+    b.player2EvasionTurns = a.nextU8().unwrap();
+    b.player1EvasionBonus = a.nextU8().unwrap();
+    b.player2EvasionBonus = a.nextU8().unwrap();
+    b.player1CritReadyTurns = a.nextU8().unwrap();
+    b.player2CritReadyTurns = a.nextU8().unwrap();
+    b.player1Energy = a.nextU8().unwrap();
+    b.player2Energy = a.nextU8().unwrap();
+    b.player1MaxHp = a.nextU64().unwrap();
+    b.player2MaxHp = a.nextU64().unwrap();
+    b.player1RageMeter = a.nextU8().unwrap();
+    b.player2RageMeter = a.nextU8().unwrap();
+    b.player1Stance = a.nextU8().unwrap();
+    b.player2Stance = a.nextU8().unwrap();
+    b.player1SpecialMeter = a.nextU8().unwrap();
+    b.player2SpecialMeter = a.nextU8().unwrap();
+    b.player1DoubleOrNothing = a.nextBool().unwrap();
+    b.player2DoubleOrNothing = a.nextBool().unwrap();
+    b.randomnessRequestId = a.nextString().unwrap();
+    b.randomnessRequestedAt = a.nextU64().unwrap();
+    b.randomnessRetries = a.nextU8().unwrap();
     return b;
   }
 }
@@ -599,6 +1005,10 @@ export class Tournament {
   winner: string; // Character ID
   createdAt: u64;
   startedAt: u64;
+  token: Address; // ERC20 used for entry fees and prizes
+  creator: Address;
+  registrationDeadline: u64; // 0 = open until full; past it an unstarted tournament can be cancelled by anyone
+  isCancelled: bool; // Cancelled before round 1; entry fees and the seeded pool were refunded
 
   constructor() {
     this.tournamentId = '';
@@ -612,6 +1022,10 @@ export class Tournament {
     this.winner = '';
     this.createdAt = 0;
     this.startedAt = 0;
+    this.token = new Address('0');
+    this.creator = new Address('0');
+    this.registrationDeadline = 0;
+    this.isCancelled = false;
   }
 
   serialize(): StaticArray<u8> {
@@ -627,6 +1041,10 @@ export class Tournament {
     a.add(this.winner);
     a.add(this.createdAt);
     a.add(this.startedAt);
+    a.add(this.token.toString());
+    a.add(this.creator.toString());
+    a.add(this.registrationDeadline);
+    a.add(this.isCancelled);
     return a.serialize();
   }
 
@@ -645,6 +1063,10 @@ export class Tournament {
     t.winner = a.nextString().unwrap();
     t.createdAt = a.nextU64().unwrap();
     t.startedAt = a.nextU64().unwrap();
+    t.token = new Address(a.nextString().unwrap());
+    t.creator = new Address(a.nextString().unwrap());
+    t.registrationDeadline = a.nextU64().unwrap();
+    t.isCancelled = a.nextBool().unwrap();
     return t;
   }
 }
@@ -714,6 +1136,9 @@ export const ACHIEVEMENT_COMBO_MASTER: u8 = 7; // 5+ combo
 export const ACHIEVEMENT_SKILL_MASTER: u8 = 8; // Learn all skills
 export const ACHIEVEMENT_LEGENDARY_EQUIPMENT: u8 = 9;
 export const ACHIEVEMENT_MAX_LEVEL: u8 = 10; // Reach level 20
+export const ACHIEVEMENT_COUNT: u8 = 10;
+export const ACHIEVEMENT_COMBO_THRESHOLD: u8 = 5;
+export const ACHIEVEMENT_STREAK_THRESHOLD: u64 = 5;
 
 // Player achievement tracking
 export class PlayerAchievements {
@@ -745,6 +1170,312 @@ export class PlayerAchievements {
   }
 }
 
+// Matchmaking queue entry (one per character)
+export class MatchmakingTicket {
+  characterId: string;
+  owner: Address;
+  minMmr: u64; // Acceptable opponent MMR range before widening
+  maxMmr: u64;
+  stakeToken: string; // ERC20 address ('' = no stake)
+  stakeAmount: u64; // Escrowed on enqueue; only equal stakes in the same token are matched
+  enqueuedAt: u64;
+
+  constructor() {
+    this.characterId = '';
+    this.owner = new Address('0');
+    this.minMmr = 0;
+    this.maxMmr = 0;
+    this.stakeToken = '';
+    this.stakeAmount = 0;
+    this.enqueuedAt = 0;
+  }
+
+  serialize(): StaticArray<u8> {
+    const a = new Args();
+    a.add(this.characterId);
+    a.add(this.owner.toString());
+    a.add(this.minMmr);
+    a.add(this.maxMmr);
+    a.add(this.stakeToken);
+    a.add(this.stakeAmount);
+    a.add(this.enqueuedAt);
+    return a.serialize();
+  }
+
+  static deserialize(data: StaticArray<u8>): MatchmakingTicket {
+    const a = new Args(data);
+    const t = new MatchmakingTicket();
+    t.characterId = a.nextString().unwrap();
+    t.owner = new Address(a.nextString().unwrap());
+    t.minMmr = a.nextU64().unwrap();
+    t.maxMmr = a.nextU64().unwrap();
+    t.stakeToken = a.nextString().unwrap();
+    t.stakeAmount = a.nextU64().unwrap();
+    t.enqueuedAt = a.nextU64().unwrap();
+    return t;
+  }
+}
+
+// Stat ranges rolled for a dropped item of one type and rarity (inclusive bounds)
+export class LootBand {
+  hpMin: u64;
+  hpMax: u64;
+  damageMinLow: u32; // Range of damageMinBonus
+  damageMinHigh: u32;
+  damageMaxLow: u32; // Range of damageMaxBonus (never below the rolled damageMinBonus)
+  damageMaxHigh: u32;
+  critMin: u32;
+  critMax: u32;
+  dodgeMin: u32;
+  dodgeMax: u32;
+  defenseMin: u32;
+  defenseMax: u32;
+  durability: u32;
+
+  constructor() {
+    this.hpMin = 0;
+    this.hpMax = 0;
+    this.damageMinLow = 0;
+    this.damageMinHigh = 0;
+    this.damageMaxLow = 0;
+    this.damageMaxHigh = 0;
+    this.critMin = 0;
+    this.critMax = 0;
+    this.dodgeMin = 0;
+    this.dodgeMax = 0;
+    this.defenseMin = 0;
+    this.defenseMax = 0;
+    this.durability = 100;
+  }
+
+  serialize(): StaticArray<u8> {
+    const a = new Args();
+    a.add(this.hpMin);
+    a.add(this.hpMax);
+    a.add(this.damageMinLow);
+    a.add(this.damageMinHigh);
+    a.add(this.damageMaxLow);
+    a.add(this.damageMaxHigh);
+    a.add(this.critMin);
+    a.add(this.critMax);
+    a.add(this.dodgeMin);
+    a.add(this.dodgeMax);
+    a.add(this.defenseMin);
+    a.add(this.defenseMax);
+    a.add(this.durability);
+    return a.serialize();
+  }
+
+  static deserialize(data: StaticArray<u8>): LootBand {
+    const a = new Args(data);
+    const b = new LootBand();
+    b.hpMin = a.nextU64().unwrap();
+    b.hpMax = a.nextU64().unwrap();
+    b.damageMinLow = a.nextU32().unwrap();
+    b.damageMinHigh = a.nextU32().unwrap();
+    b.damageMaxLow = a.nextU32().unwrap();
+    b.damageMaxHigh = a.nextU32().unwrap();
+    b.critMin = a.nextU32().unwrap();
+    b.critMax = a.nextU32().unwrap();
+    b.dodgeMin = a.nextU32().unwrap();
+    b.dodgeMax = a.nextU32().unwrap();
+    b.defenseMin = a.nextU32().unwrap();
+    b.defenseMax = a.nextU32().unwrap();
+    b.durability = a.nextU32().unwrap();
+    return b;
+  }
+}
+
+// Marketplace listing: fixed price or English auction (the item stays with the seller under a market lock)
+export class Listing {
+  listingId: string;
+  seller: Address;
+  equipmentId: string;
+  kind: u8; // LISTING_FIXED_PRICE or LISTING_AUCTION
+  token: string; // ERC20 the item is priced in
+  price: u64; // Fixed price, or the auction reserve
+  endTime: u64; // Auction end (ms); 0 for fixed price
+  highestBidder: string; // '' = no bids yet
+  highestBid: u64; // Escrowed by the contract until outbid or settled
+  status: u8; // LISTING_STATUS_*
+  createdAt: u64;
+  buyer: string; // Set once sold
+
+  constructor() {
+    this.listingId = '';
+    this.seller = new Address('0');
+    this.equipmentId = '';
+    this.kind = 0;
+    this.token = '';
+    this.price = 0;
+    this.endTime = 0;
+    this.highestBidder = '';
+    this.highestBid = 0;
+    this.status = 0;
+    this.createdAt = 0;
+    this.buyer = '';
+  }
+
+  serialize(): StaticArray<u8> {
+    const a = new Args();
+    a.add(this.listingId);
+    a.add(this.seller.toString());
+    a.add(this.equipmentId);
+    a.add(this.kind);
+    a.add(this.token);
+    a.add(this.price);
+    a.add(this.endTime);
+    a.add(this.highestBidder);
+    a.add(this.highestBid);
+    a.add(this.status);
+    a.add(this.createdAt);
+    a.add(this.buyer);
+    return a.serialize();
+  }
+
+  static deserialize(data: StaticArray<u8>): Listing {
+    const a = new Args(data);
+    const l = new Listing();
+    l.listingId = a.nextString().unwrap();
+    l.seller = new Address(a.nextString().unwrap());
+    l.equipmentId = a.nextString().unwrap();
+    l.kind = a.nextU8().unwrap();
+    l.token = a.nextString().unwrap();
+    l.price = a.nextU64().unwrap();
+    l.endTime = a.nextU64().unwrap();
+    l.highestBidder = a.nextString().unwrap();
+    l.highestBid = a.nextU64().unwrap();
+    l.status = a.nextU8().unwrap();
+    l.createdAt = a.nextU64().unwrap();
+    l.buyer = a.nextString().unwrap();
+    return l;
+  }
+}
+
+// Escrowed offer from a buyer on any item, listed or not
+export class Offer {
+  equipmentId: string;
+  buyer: Address;
+  token: string;
+  amount: u64;
+  expiresAt: u64; // ms; the buyer can withdraw at any time
+  createdAt: u64;
+
+  constructor() {
+    this.equipmentId = '';
+    this.buyer = new Address('0');
+    this.token = '';
+    this.amount = 0;
+    this.expiresAt = 0;
+    this.createdAt = 0;
+  }
+
+  serialize(): StaticArray<u8> {
+    const a = new Args();
+    a.add(this.equipmentId);
+    a.add(this.buyer.toString());
+    a.add(this.token);
+    a.add(this.amount);
+    a.add(this.expiresAt);
+    a.add(this.createdAt);
+    return a.serialize();
+  }
+
+  static deserialize(data: StaticArray<u8>): Offer {
+    const a = new Args(data);
+    const o = new Offer();
+    o.equipmentId = a.nextString().unwrap();
+    o.buyer = new Address(a.nextString().unwrap());
+    o.token = a.nextString().unwrap();
+    o.amount = a.nextU64().unwrap();
+    o.expiresAt = a.nextU64().unwrap();
+    o.createdAt = a.nextU64().unwrap();
+    return o;
+  }
+}
+
+// Skill behaviour read by the turn engine; built-in skills fall back to builtinSkillDefinition
+export class SkillDefinition {
+  skillId: u8;
+  name: string;
+  cooldown: u8; // Turns before the skill can be used again
+  energyCost: u8;
+  requiredLevel: u16;
+  classMask: u8; // Bit (1 << characterClass) per allowed class; 0 = any class
+  damageMultiplier: u16; // Applied to this turn's hit, 100 = 1.0x
+  healPct: u8; // % of max HP restored to the user
+  appliedStatus: u8; // STATUS_* bitmask applied to `target`
+  statusDuration: u8;
+  target: u8; // SKILL_TARGET_SELF or SKILL_TARGET_ENEMY
+  flags: u8; // SKILL_FLAG_* bitmask
+  dodgeBonus: u16; // Dodge % granted while the STATUS_EVASION it applies lasts
+  version: u32; // Bumped on every admin write; 0 = built-in default
+  enabled: bool; // false once deleted: cannot be learned or used
+  updatedAt: u64;
+
+  constructor() {
+    this.skillId = SKILL_NONE;
+    this.name = '';
+    this.cooldown = 0;
+    this.energyCost = 0;
+    this.requiredLevel = 1;
+    this.classMask = 0;
+    this.damageMultiplier = 100;
+    this.healPct = 0;
+    this.appliedStatus = STATUS_NONE;
+    this.statusDuration = 0;
+    this.target = SKILL_TARGET_ENEMY;
+    this.flags = 0;
+    this.dodgeBonus = 0;
+    this.version = 0;
+    this.enabled = true;
+    this.updatedAt = 0;
+  }
+
+  serialize(): StaticArray<u8> {
+    const a = new Args();
+    a.add(this.skillId);
+    a.add(this.name);
+    a.add(this.cooldown);
+    a.add(this.energyCost);
+    a.add(this.requiredLevel as u32);
+    a.add(this.classMask);
+    a.add(this.damageMultiplier as u32);
+    a.add(this.healPct);
+    a.add(this.appliedStatus);
+    a.add(this.statusDuration);
+    a.add(this.target);
+    a.add(this.flags);
+    a.add(this.dodgeBonus as u32);
+    a.add(this.version);
+    a.add(this.enabled);
+    a.add(this.updatedAt);
+    return a.serialize();
+  }
+
+  static deserialize(data: StaticArray<u8>): SkillDefinition {
+    const a = new Args(data);
+    const s = new SkillDefinition();
+    s.skillId = a.nextU8().unwrap();
+    s.name = a.nextString().unwrap();
+    s.cooldown = a.nextU8().unwrap();
+    s.energyCost = a.nextU8().unwrap();
+    s.requiredLevel = a.nextU32().unwrap() as u16;
+    s.classMask = a.nextU8().unwrap();
+    s.damageMultiplier = a.nextU32().unwrap() as u16;
+    s.healPct = a.nextU8().unwrap();
+    s.appliedStatus = a.nextU8().unwrap();
+    s.statusDuration = a.nextU8().unwrap();
+    s.target = a.nextU8().unwrap();
+    s.flags = a.nextU8().unwrap();
+    s.dodgeBonus = a.nextU32().unwrap() as u16;
+    s.version = a.nextU32().unwrap();
+    s.enabled = a.nextBool().unwrap();
+    s.updatedAt = a.nextU64().unwrap();
+    return s;
+  }
+}
+
 // Storage prefixes
 const CHARACTER_PREFIX = 'character:'; // character:<id> -> serialized Character
 const BATTLE_PREFIX = 'battle:';       // battle:<id> -> serialized Battle
@@ -755,6 +1486,37 @@ const ACHIEVEMENTS_PREFIX = 'achievements:'; // achievements:<address> -> Player
 const GAME_AUTH_SETTLER = 'game:auth_settler:'; // set by admin: {settlerAddress:true}
 const BETTING_STREAK_PREFIX = 'streak:'; // streak:<address> -> win streak counter
 const TOURNAMENT_COUNT_KEY = 'tournament_count';
+const RANDOMNESS_REQUEST_PREFIX = 'rand_request:'; // rand_request:<requestId> -> battleId
+const TOURNAMENT_INDEX_PREFIX = 'tournament_index:'; // tournament_index:<n> -> tournamentId (1-based creation order)
+const TOURNAMENT_MATCH_PREFIX = 'tmatch:'; // tmatch:<tournamentId>:<round>:<slot> -> battleId
+const MATCHMAKING_TICKET_PREFIX = 'mm_ticket:'; // mm_ticket:<characterId> -> MatchmakingTicket
+const LEADERBOARD_RANK_PREFIX = 'leaderboard_rank:'; // leaderboard_rank:<rank> -> characterId (0-based, MMR desc)
+const LEADERBOARD_POS_PREFIX = 'leaderboard_pos:'; // leaderboard_pos:<characterId> -> rank
+const LEADERBOARD_SIZE_KEY = 'leaderboard_size';
+const LEADERBOARD_MAX_PAGE: u32 = 50;
+const LEADERBOARD_MAX_SIZE: u64 = 100; // Only the top K are ranked, bounding the re-sort work per finalize
+const PLAYER_STAT_PREFIX = 'player_stat:'; // player_stat:<address>:<stat> -> counter feeding achievements
+const STAT_WINS = 'wins';
+const STAT_WIN_STREAK = 'win_streak';
+const STAT_BEST_COMBO = 'best_combo';
+const STAT_SKILLS_LEARNED = 'skills_learned'; // Most skills learned by one of the player's characters
+const STAT_LEGENDARY_ITEMS = 'legendary_items';
+const STAT_MAX_LEVEL = 'max_level';
+const STAT_TOURNAMENT_WINS = 'tournament_wins';
+const LOOT_WEIGHT_PREFIX = 'loot_weight:'; // loot_weight:<rarity> -> relative drop weight
+const LOOT_BAND_PREFIX = 'loot_band:'; // loot_band:<type>:<rarity> -> LootBand
+const MATERIALS_PREFIX = 'materials:'; // materials:<address> -> crafting material balance
+const LISTING_PREFIX = 'listing:'; // listing:<listingId> -> Listing
+const MARKET_LOCK_PREFIX = 'market_lock:'; // market_lock:<equipmentId> -> active listingId
+const OFFER_PREFIX = 'offer:'; // offer:<equipmentId>:<buyer> -> Offer
+const MARKET_FEES_PREFIX = 'market_fees:'; // market_fees:<token> -> market fees held in that token
+const SKILL_DEFINITION_PREFIX = 'skill_def:'; // skill_def:<skillId> -> current SkillDefinition
+const SKILL_VERSION_PREFIX = 'skill_def_version:'; // skill_def_version:<skillId>:<version> -> SkillDefinition snapshot
+const NFT_APPROVAL_PREFIX = 'nft_approved:'; // nft_approved:<equipmentId> -> approved address
+const NFT_OPERATOR_PREFIX = 'nft_operator:'; // nft_operator:<owner>:<operator> -> bool
+const NFT_OWNED_COUNT_PREFIX = 'nft_owned_count:'; // nft_owned_count:<owner> -> number of items held
+const NFT_OWNED_PREFIX = 'nft_owned:'; // nft_owned:<owner>:<index> -> equipmentId (0-based)
+const NFT_OWNED_INDEX_PREFIX = 'nft_owned_index:'; // nft_owned_index:<equipmentId> -> index in its owner's list
 
 // Helpers
 function characterKey(id: string): string { return CHARACTER_PREFIX + id; }
@@ -764,6 +1526,31 @@ function streakKey(addr: Address): string { return BETTING_STREAK_PREFIX + addr.
 function tournamentKey(id: string): string { return TOURNAMENT_PREFIX + id; }
 function leaderboardKey(charId: string): string { return LEADERBOARD_PREFIX + charId; }
 function achievementsKey(addr: string): string { return ACHIEVEMENTS_PREFIX + addr; }
+function playerStatKey(addr: Address, stat: string): string { return PLAYER_STAT_PREFIX + addr.toString() + ':' + stat; }
+function randomnessRequestKey(requestId: string): string { return RANDOMNESS_REQUEST_PREFIX + requestId; }
+function leaderboardRankKey(rank: u64): string { return LEADERBOARD_RANK_PREFIX + rank.toString(); }
+function leaderboardPosKey(charId: string): string { return LEADERBOARD_POS_PREFIX + charId; }
+function matchmakingTicketKey(charId: string): string { return MATCHMAKING_TICKET_PREFIX + charId; }
+function lootWeightKey(rarity: u8): string { return LOOT_WEIGHT_PREFIX + rarity.toString(); }
+function lootBandKey(type: u8, rarity: u8): string { return LOOT_BAND_PREFIX + type.toString() + ':' + rarity.toString(); }
+function materialsKey(addr: Address): string { return MATERIALS_PREFIX + addr.toString(); }
+function listingKey(id: string): string { return LISTING_PREFIX + id; }
+function marketLockKey(equipmentId: string): string { return MARKET_LOCK_PREFIX + equipmentId; }
+function offerKey(equipmentId: string, buyer: string): string { return OFFER_PREFIX + equipmentId + ':' + buyer; }
+function marketFeesKey(token: string): string { return MARKET_FEES_PREFIX + token; }
+function skillDefinitionKey(skillId: u8): string { return SKILL_DEFINITION_PREFIX + skillId.toString(); }
+function skillVersionKey(skillId: u8, version: u32): string {
+  return SKILL_VERSION_PREFIX + skillId.toString() + ':' + version.toString();
+}
+function nftApprovalKey(equipmentId: string): string { return NFT_APPROVAL_PREFIX + equipmentId; }
+function nftOperatorKey(owner: string, operator: string): string { return NFT_OPERATOR_PREFIX + owner + ':' + operator; }
+function nftOwnedCountKey(owner: string): string { return NFT_OWNED_COUNT_PREFIX + owner; }
+function nftOwnedKey(owner: string, index: u64): string { return NFT_OWNED_PREFIX + owner + ':' + index.toString(); }
+function nftOwnedIndexKey(equipmentId: string): string { return NFT_OWNED_INDEX_PREFIX + equipmentId; }
+function tournamentIndexKey(n: u64): string { return TOURNAMENT_INDEX_PREFIX + n.toString(); }
+function tournamentMatchKey(id: string, round: u8, slot: i32): string {
+  return TOURNAMENT_MATCH_PREFIX + id + ':' + round.toString() + ':' + slot.toString();
+}
 
 // Constructor for game contract
 export function game_constructor(_: StaticArray<u8>): void {
@@ -802,7 +1589,7 @@ export function game_createCharacter(args: StaticArray<u8>): void {
   char.createdAt = ts;
   // set base stats
   switch (classU8) {
-    case 0: // warrior
+    case CLASS_WARRIOR:
       char.maxHp = 120;
       char.currentHp = 120;
       char.baseDamageMin = 8;
@@ -810,7 +1597,7 @@ export function game_createCharacter(args: StaticArray<u8>): void {
       char.critChance = 15;
       char.dodgeChance = 0;
       break;
-    case 1: // assassin
+    case CLASS_ASSASSIN:
       char.maxHp = 90;
       char.currentHp = 90;
       char.baseDamageMin = 12;
@@ -818,7 +1605,7 @@ export function game_createCharacter(args: StaticArray<u8>): void {
       char.critChance = 35;
       char.dodgeChance = 20;
       break;
-    case 2: // mage
+    case CLASS_MAGE:
       char.maxHp = 80;
       char.currentHp = 80;
       char.baseDamageMin = 10;
@@ -826,7 +1613,7 @@ export function game_createCharacter(args: StaticArray<u8>): void {
       char.critChance = 20;
       char.dodgeChance = 0;
       break;
-    case 3: // tank
+    case CLASS_TANK:
       char.maxHp = 150;
       char.currentHp = 150;
       char.baseDamageMin = 6;
@@ -834,7 +1621,7 @@ export function game_createCharacter(args: StaticArray<u8>): void {
       char.critChance = 10;
       char.dodgeChance = 0;
       break;
-    case 4: // trickster
+    case CLASS_TRICKSTER:
       char.maxHp = 100;
       char.currentHp = 100;
       char.baseDamageMin = 9;
@@ -860,7 +1647,7 @@ export function game_readCharacter(args: StaticArray<u8>): StaticArray<u8> {
   return getBytes(characterKey(id));
 }
 
-// create battle (scheduled)
+// create battle (scheduled) as a challenge that char2's owner must accept before startTs
 export function game_createBattle(args: StaticArray<u8>): void {
   whenNotPaused();
   nonReentrant();
@@ -869,22 +1656,244 @@ export function game_createBattle(args: StaticArray<u8>): void {
   const char1Id = ar.nextString().unwrap();
   const char2Id = ar.nextString().unwrap();
   const startTs = ar.nextU64().unwrap(); // unix ms
+  // optional: player 1's randomness commitment (can also be posted later via game_commitRandomness)
+  const commitmentArg = ar.nextString();
+  const commitment = commitmentArg.isErr() ? '' : commitmentArg.unwrap();
+  // optional: wager each side escrows (challenger now, opponent on accept)
+  const stakeArg = ar.nextU64();
+  const stakeAmount = stakeArg.isErr() ? 0 : stakeArg.unwrap();
+  const tokenArg = ar.nextString();
+  const stakeToken = tokenArg.isErr() ? '' : tokenArg.unwrap();
 
   assert(!hasKey(battleKey(battleId)), 'battle exists');
+  assert(startTs > Context.timestamp(), 'start must be in the future');
+  assert(stakeAmount == 0 || stakeToken.length > 0, 'stake token required');
 
   // load characters
   assert(hasKey(characterKey(char1Id)) && hasKey(characterKey(char2Id)), 'characters missing');
-  const c1Data = getBytes(characterKey(char1Id));
-  const c2Data = getBytes(characterKey(char2Id));
-  const c1 = Character.deserialize(c1Data);
-  const c2 = Character.deserialize(c2Data);
+  assert(char1Id != char2Id, 'cannot challenge self');
+  const c1 = Character.deserialize(getBytes(characterKey(char1Id)));
 
   // require callers be owners (player1 creates)
   const caller = Context.caller();
   assert(caller.toString() == c1.owner.toString(), 'not owner of char1');
 
+  const battle = createBattleRecord(battleId, char1Id, char2Id, startTs);
+  battle.isAccepted = false;
+  battle.stakeToken = stakeAmount > 0 ? stakeToken : '';
+  battle.stakeAmount = stakeAmount;
+  depositWager(battleId, battle, caller, 1);
+  if (commitment.length > 0) {
+    battle.player1Commitment = normalizeCommitment(commitment);
+  }
+
+  setBytes(battleKey(battleId), battle.serialize());
+  endNonReentrant();
+  generateEvent('BattleCreated:' + battleId);
+  generateEvent('ChallengeIssued:' + battleId + ':to=' + char2Id + ':stake=' + stakeAmount.toString());
+}
+
+// Player 2's owner consents to a challenge, escrowing the matching stake
+// Args: battleId, commitment (optional, player 2's first randomness commitment)
+export function game_acceptChallenge(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const battleId = ar.nextString().unwrap();
+  const commitmentArg = ar.nextString();
+  const commitment = commitmentArg.isErr() ? '' : commitmentArg.unwrap();
+
+  assert(hasKey(battleKey(battleId)), 'battle missing');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+  assert(!battle.isAccepted && battle.status == BATTLE_STATUS_SCHEDULED, 'challenge not pending');
+  assert(Context.timestamp() < battle.startTs, 'challenge expired');
+
+  const caller = Context.caller();
+  assert(caller.toString() == battle.player2Owner.toString(), 'not challenged owner');
+
+  depositWager(battleId, battle, caller, 2);
+
+  battle.isAccepted = true;
+  battle.lastTurnTimestamp = Context.timestamp();
+  if (commitment.length > 0) {
+    battle.player2Commitment = normalizeCommitment(commitment);
+  }
+
+  setBytes(battleKey(battleId), battle.serialize());
+  endNonReentrant();
+  generateEvent('ChallengeAccepted:' + battleId);
+}
+
+// Player 2's owner turns a challenge down; the challenger's stake is returned
+export function game_declineChallenge(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const battleId = ar.nextString().unwrap();
+
+  assert(hasKey(battleKey(battleId)), 'battle missing');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+  assert(!battle.isAccepted && battle.status == BATTLE_STATUS_SCHEDULED, 'challenge not pending');
+
+  const caller = Context.caller();
+  assert(caller.toString() == battle.player2Owner.toString(), 'not challenged owner');
+
+  closeBattleBeforeResult(battleId, battle, BATTLE_STATUS_CANCELLED);
+  endNonReentrant();
+  generateEvent('ChallengeDeclined:' + battleId);
+}
+
+// Anyone may close a challenge that reached startTs without being accepted
+export function game_expireChallenge(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const battleId = ar.nextString().unwrap();
+
+  assert(hasKey(battleKey(battleId)), 'battle missing');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+  assert(!battle.isAccepted && battle.status == BATTLE_STATUS_SCHEDULED, 'challenge not pending');
+  assert(Context.timestamp() >= battle.startTs, 'challenge still open');
+
+  closeBattleBeforeResult(battleId, battle, BATTLE_STATUS_CANCELLED);
+  endNonReentrant();
+  generateEvent('ChallengeExpired:' + battleId);
+}
+
+// Either owner may cancel a battle that has not started yet; escrowed stakes are returned
+export function game_cancelBattle(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const battleId = ar.nextString().unwrap();
+
+  assert(hasKey(battleKey(battleId)), 'battle missing');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+  assert(battle.status == BATTLE_STATUS_SCHEDULED && battle.turnNumber == 0, 'battle already started');
+  assert(Context.timestamp() < battle.startTs, 'battle already started');
+  assert(battle.tournamentId.length == 0, 'tournament battle');
+
+  const caller = Context.caller().toString();
+  assert(caller == battle.player1Owner.toString() || caller == battle.player2Owner.toString(), 'not a participant');
+
+  closeBattleBeforeResult(battleId, battle, BATTLE_STATUS_CANCELLED);
+  endNonReentrant();
+  generateEvent('BattleCancelled:' + battleId + ':by=' + caller);
+}
+
+// Admin escape hatch: void any battle whose result has not been applied yet
+export function game_voidBattle(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  nonReentrant();
+  const ar = new Args(args);
+  const battleId = ar.nextString().unwrap();
+
+  assert(hasKey(battleKey(battleId)), 'battle missing');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+  assert(battle.status != BATTLE_STATUS_CANCELLED && battle.status != BATTLE_STATUS_VOIDED, 'battle already closed');
+  assert(!battle.isFinalized && !battle.stakeSettled, 'battle result already applied');
+  assert(battle.tournamentId.length == 0, 'tournament battle');
+
+  closeBattleBeforeResult(battleId, battle, BATTLE_STATUS_VOIDED);
+  endNonReentrant();
+  generateEvent('BattleVoided:' + battleId);
+}
+
+// Move a battle to cancelled/voided and refund escrowed stakes (player 2 only paid in once accepted)
+function closeBattleBeforeResult(battleId: string, battle: Battle, status: u8): void {
+  battle.status = status;
+  battle.isFinished = false;
+  battle.winner = 0;
+  battle.awaitingRandomness = false;
+  battle.wildcardActive = false;
+  refundWager(battleId, battle);
+  setBytes(battleKey(battleId), battle.serialize());
+}
+
+// ============================================================================
+// WAGERS
+// ============================================================================
+//
+// A wager battle escrows stakeAmount of stakeToken from each owner: player 1
+// when the battle is created, player 2 on accept (matchmaking moves both
+// queued stakes straight into the battle). The winner receives both stakes
+// minus the house fee; cancelled and voided battles refund what was paid in.
+
+function depositWager(battleId: string, battle: Battle, from: Address, player: u8): void {
+  if (battle.stakeAmount == 0) return;
+  const token = new IERC20(new Address(battle.stakeToken));
+  token.transferFrom(from, Context.callee(), battle.stakeAmount);
+  generateEvent('WagerDeposited:' + battleId + ':player=' + player.toString() + ':amount=' + battle.stakeAmount.toString());
+}
+
+// Pay the pot to the winner once (on finalize, or right away on a bot timeout); caller persists the battle
+function settleWager(battleId: string, battle: Battle): void {
+  if (battle.stakeAmount == 0 || battle.stakeSettled) return;
+  battle.stakeSettled = true;
+
+  const pot = battle.stakeAmount * 2;
+  const fee = pot * (DEFAULT_HOUSE_EDGE_BPS as u64) / BASIS_POINTS;
+  const payout = pot - fee;
+  if (fee > 0) {
+    setCounter(TREASURY_BALANCE_KEY, getCounter(TREASURY_BALANCE_KEY) + fee);
+  }
+
+  const winnerOwner = battle.winner == 1 ? battle.player1Owner : battle.player2Owner;
+  const token = new IERC20(new Address(battle.stakeToken));
+  token.transfer(winnerOwner, payout);
+  generateEvent('WagerPaid:' + battleId + ':winner=' + winnerOwner.toString() + ':payout=' + payout.toString() + ':fee=' + fee.toString());
+}
+
+// Return escrowed stakes (player 2 only paid in once accepted); caller persists the battle
+function refundWager(battleId: string, battle: Battle): void {
+  if (battle.stakeAmount == 0 || battle.stakeSettled) return;
+  battle.stakeSettled = true;
+
+  const token = new IERC20(new Address(battle.stakeToken));
+  token.transfer(battle.player1Owner, battle.stakeAmount);
+  generateEvent('WagerRefunded:' + battleId + ':to=' + battle.player1Owner.toString() + ':amount=' + battle.stakeAmount.toString());
+  if (battle.isAccepted) {
+    token.transfer(battle.player2Owner, battle.stakeAmount);
+    generateEvent('WagerRefunded:' + battleId + ':to=' + battle.player2Owner.toString() + ':amount=' + battle.stakeAmount.toString());
+  }
+}
+
+// Args: battleId
+// Returns: stakeToken (string), stakeAmount per side (u64), pot (u64), settled (bool)
+export function game_readWager(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const battleId = ar.nextString().unwrap();
+  if (!hasKey(battleKey(battleId))) return stringToBytes('null');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+
+  const result = new Args();
+  result.add(battle.stakeToken);
+  result.add(battle.stakeAmount);
+  result.add(battle.stakeAmount * 2);
+  result.add(battle.stakeSettled);
+  return result.serialize();
+}
+
+// End a battle with a winner (1 or 2)
+function finishBattle(battle: Battle, winner: u8): void {
+  battle.isFinished = true;
+  battle.winner = winner;
+  battle.status = BATTLE_STATUS_FINISHED;
+}
+
+// Linked prediction pools and prop bets refund stakes once their battle can no longer produce a result
+function battleRefundsBets(battleId: string): bool {
+  if (!hasKey(battleKey(battleId))) return false;
+  const status = Battle.deserialize(getBytes(battleKey(battleId))).status;
+  return status == BATTLE_STATUS_CANCELLED || status == BATTLE_STATUS_VOIDED;
+}
+
+/**
+ * Build a fresh battle between two existing characters and bump the battle
+ * counter. Callers validate authorization and persist the result.
+ */
+function createBattleRecord(battleId: string, char1Id: string, char2Id: string, startTs: u64): Battle {
+  const c1 = Character.deserialize(getBytes(characterKey(char1Id)));
+  const c2 = Character.deserialize(getBytes(characterKey(char2Id)));
+
   const battle = new Battle();
-  battle.player1Char = new Address(c1Data ? c1Data.length > 0 ? c1.owner.toString() : '' : '0'); // placeholder, store addresses
   battle.player1Char = new Address(char1Id); // for identity we store char id as pseudo address string
   battle.player2Char = new Address(char2Id);
   battle.player1Owner = c1.owner;
@@ -895,8 +1904,7 @@ export function game_createBattle(args: StaticArray<u8>): void {
   battle.currentTurn = 1;
   battle.isFinished = false;
   battle.winner = 0;
-  battle.player1Hp = c1.maxHp;
-  battle.player2Hp = c2.maxHp;
+  initBattleVitals(battle, c1, c2);
   battle.wildcardActive = false;
   battle.wildcardType = 0;
   battle.wildcardDecisionDeadline = 0;
@@ -907,72 +1915,383 @@ export function game_createBattle(args: StaticArray<u8>): void {
   const now = Context.timestamp();
   battle.lastTurnTimestamp = now;
   battle.turnTimeout = DEFAULT_TURN_TIMEOUT;
-  battle.battleDeadline = now + MAX_BATTLE_DURATION;
+  battle.battleDeadline = (startTs > now ? startTs : now) + MAX_BATTLE_DURATION;
+  battle.status = BATTLE_STATUS_SCHEDULED;
+
+  // Seed randomness; only reveals / oracle values make it unpredictable
+  battle.randomSeed = seedFromBytes(sha256(stringToBytes(battleId)));
+  battle.randomnessSource = getString(RANDOMNESS_SOURCE_KEY);
+
+  // Matchmaking and tournament pairings are consented up front; direct challenges reset this
+  battle.isAccepted = true;
 
-  setBytes(battleKey(battleId), battle.serialize());
   incrementCounter(BATTLE_COUNT_KEY);
-  endNonReentrant();
-  generateEvent('BattleCreated:' + battleId);
+  return battle;
+}
+
+// Full HP (with equipment) and energy for both sides; the characters themselves are never modified
+function initBattleVitals(battle: Battle, c1: Character, c2: Character): void {
+  battle.player1MaxHp = c1.maxHp + equipmentHpBonus(c1);
+  battle.player2MaxHp = c2.maxHp + equipmentHpBonus(c2);
+  battle.player1Hp = battle.player1MaxHp;
+  battle.player2Hp = battle.player2MaxHp;
+  battle.player1Energy = MAX_ENERGY;
+  battle.player2Energy = MAX_ENERGY;
+}
+
+// Next free numeric battle id, so contract-created battles are swept by the battle bot
+function nextBattleId(): string {
+  let n = getCounter(BATTLE_COUNT_KEY) + 1;
+  while (hasKey(battleKey(n.toString()))) {
+    n += 1;
+  }
+  return n.toString();
+}
+
+// ============================================================================
+// RANDOMNESS - Commit-reveal (default) or external IRandomnessSource
+// ============================================================================
+//
+// Battles created while a randomness source is configured request a value from
+// it on every turn and stay parked (awaitingRandomness) until the source calls
+// game_fulfillRandomness; a request left unanswered past RANDOMNESS_FULFILL_TIMEOUT is re-issued and
+// eventually abandoned (game_retryRandomness / battle bot). Otherwise each participant commits
+// sha256('<secret>:<stance>:<useSpecial 0|1>:<skillSlot>') (hex) before their turn and reveals the secret when
+// executing it with that same action. The reveal is mixed into the battle seed together with the opponent's
+// outstanding commitment, so neither player can predict the rolls when they commit, and the action is fixed
+// before the rolls are known. Withholding a reveal stalls the battle and is punished by the battle bot's
+// turn-timeout forfeit.
+
+const HEX_CHARS = '0123456789abcdef';
+
+function bytesToHex(bytes: StaticArray<u8>): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    out += HEX_CHARS.charAt((bytes[i] >> 4) as i32) + HEX_CHARS.charAt((bytes[i] & 0x0f) as i32);
+  }
+  return out;
+}
+
+// Fold the first 8 bytes of a digest into a u64 seed
+function seedFromBytes(digest: StaticArray<u8>): u64 {
+  let seed: u64 = 0;
+  for (let i = 0; i < 8; i++) {
+    seed = (seed << 8) | (digest[i] as u64);
+  }
+  return seed;
+}
+
+function normalizeCommitment(commitment: string): string {
+  const normalized = commitment.toLowerCase();
+  assert(normalized.length == 64, 'invalid commitment');
+  return normalized;
+}
+
+// Commitment a client must post for a turn: the secret and the action it will be revealed with
+function commitmentOf(secret: string, stance: u8, useSpecial: bool, skillSlot: u8): string {
+  const preimage = secret + ':' + stance.toString() + ':' + (useSpecial ? '1' : '0') + ':' + skillSlot.toString();
+  return bytesToHex(sha256(stringToBytes(preimage)));
+}
+
+/**
+ * Verify the attacker's reveal and chosen action against their commitment and mix
+ * the reveal into the battle seed. Consumes the commitment and stores the next one (if provided).
+ */
+function applyReveal(
+  battleId: string,
+  battle: Battle,
+  isPlayer1: bool,
+  reveal: string,
+  stance: u8,
+  useSpecial: bool,
+  skillSlot: u8,
+  nextCommitment: string,
+): void {
+  const commitment = isPlayer1 ? battle.player1Commitment : battle.player2Commitment;
+  const opponentCommitment = isPlayer1 ? battle.player2Commitment : battle.player1Commitment;
+  assert(commitment.length > 0, 'no randomness commitment');
+  assert(opponentCommitment.length > 0, 'opponent commitment missing');
+  assert(commitmentOf(reveal, stance, useSpecial, skillSlot) == commitment, 'reveal does not match commitment');
+
+  const mix = new Args();
+  mix.add(battle.randomSeed);
+  mix.add(reveal);
+  mix.add(opponentCommitment);
+  mix.add(battleId);
+  mix.add(battle.turnNumber);
+  battle.randomSeed = seedFromBytes(sha256(mix.serialize()));
+
+  const next = nextCommitment.length > 0 ? normalizeCommitment(nextCommitment) : '';
+  if (isPlayer1) {
+    battle.player1Commitment = next;
+  } else {
+    battle.player2Commitment = next;
+  }
 }
 
-// Internal helper: simple (insecure) RNG - for prototype only
-function simple_random(seed: u64, salt: u64): u64 {
-  const x = seed ^ salt ^ Context.timestamp() as u64;
-  // xorshift-ish
-  let r = x;
+// Deterministic roll derived from the battle seed; salt separates independent rolls
+function seededRandom(seed: u64, salt: u64): u64 {
+  let r = seed ^ (salt * 0x9e3779b97f4a7c15);
+  // xorshift
   r ^= r << 13;
   r ^= r >> 7;
   r ^= r << 17;
-  return r & 0xffffffffffffffff;
+  return r;
 }
 
-// execute turn
-export function game_executeTurn(args: StaticArray<u8>): void {
+// Configure the external randomness source (admin). Empty address reverts new battles to commit-reveal
+export function game_setRandomnessSource(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const source = ar.nextString().unwrap();
+  if (source.length > 0) {
+    setString(RANDOMNESS_SOURCE_KEY, source);
+  } else {
+    deleteKey(RANDOMNESS_SOURCE_KEY);
+  }
+  generateEvent('RandomnessSourceSet:' + source);
+}
+
+export function game_getRandomnessSource(_: StaticArray<u8>): StaticArray<u8> {
+  const result = new Args();
+  result.add(getString(RANDOMNESS_SOURCE_KEY));
+  return result.serialize();
+}
+
+// Post a randomness commitment for an upcoming turn
+export function game_commitRandomness(args: StaticArray<u8>): void {
   whenNotPaused();
   nonReentrant();
   const ar = new Args(args);
   const battleId = ar.nextString().unwrap();
-  const attackerCharId = ar.nextString().unwrap();
-  const stance = ar.nextU8().unwrap(); // 0..4
-  const useSpecial = ar.nextBool().unwrap();
-  const skillSlot = ar.nextU8().unwrap(); // 0 = no skill, 1-3 = use skill from that slot
+  const playerCharId = ar.nextString().unwrap();
+  const commitment = ar.nextString().unwrap();
 
   assert(hasKey(battleKey(battleId)), 'battle missing');
-  const bData = getBytes(battleKey(battleId));
-  const battle = Battle.deserialize(bData);
-
-  assert(!battle.isFinished, 'battle finished');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+  assert(battle.status <= BATTLE_STATUS_AWAITING_WILDCARD, 'battle closed');
+  assert(battle.randomnessSource.length == 0, 'battle uses external randomness');
 
-  // verify attacker owner
-  const attackerChar = attackerCharId;
-  let isPlayer1 = false;
-  if (attackerChar == battle.player1Char.toString()) isPlayer1 = true;
+  const isPlayer1 = playerCharId == battle.player1Char.toString();
+  assert(isPlayer1 || playerCharId == battle.player2Char.toString(), 'not a participant');
   const caller = Context.caller();
   const expectedOwner = isPlayer1 ? battle.player1Owner : battle.player2Owner;
-  assert(caller.toString() == expectedOwner.toString(), 'not turn owner');
+  assert(caller.toString() == expectedOwner.toString(), 'not owner');
 
-  // ensure it's the right turn
+  // A commitment cannot be swapped once the opponent may have mixed it into their turn
+  const currentCommitment = isPlayer1 ? battle.player1Commitment : battle.player2Commitment;
+  assert(currentCommitment.length == 0, 'commitment already posted');
+
+  if (isPlayer1) {
+    battle.player1Commitment = normalizeCommitment(commitment);
+  } else {
+    battle.player2Commitment = normalizeCommitment(commitment);
+  }
+
+  setBytes(battleKey(battleId), battle.serialize());
+  endNonReentrant();
+  generateEvent('RandomnessCommitted:' + battleId + ':player=' + (isPlayer1 ? '1' : '2'));
+}
+
+// execute turn
+export function game_executeTurn(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const battleId = ar.nextString().unwrap();
+  const attackerCharId = ar.nextString().unwrap();
+  const stance = ar.nextU8().unwrap(); // STANCE_*
+  const useSpecial = ar.nextBool().unwrap(); // requires a charged special (specialReady)
+  const skillSlot = ar.nextU8().unwrap(); // 0 = no skill, 1-3 = use skill from that slot
+  const revealArg = ar.nextString(); // secret behind the attacker's commitment (commit-reveal battles only)
+  const reveal = revealArg.isErr() ? '' : revealArg.unwrap();
+  const nextCommitmentArg = ar.nextString(); // optional commitment for the attacker's next turn
+  const nextCommitment = nextCommitmentArg.isErr() ? '' : nextCommitmentArg.unwrap();
+
+  assert(hasKey(battleKey(battleId)), 'battle missing');
+  const bData = getBytes(battleKey(battleId));
+  const battle = Battle.deserialize(bData);
+
+  assert(battle.status <= BATTLE_STATUS_AWAITING_WILDCARD, 'battle closed');
+  assert(battle.isAccepted, 'challenge not accepted');
+  assert(Context.timestamp() >= battle.startTs, 'battle not started');
+  assert(!battle.awaitingRandomness, 'awaiting randomness');
+
+  // An unanswered wildcard resolves with the missing decisions as declines once its window closes
+  if (battle.status == BATTLE_STATUS_AWAITING_WILDCARD) {
+    assert(Context.timestamp() > battle.wildcardDecisionDeadline, 'wildcard pending');
+    resolveWildcard(battleId, battle);
+  }
+  // Re-snapshot vitals on the first turn so gear changed after creation counts
+  if (battle.status == BATTLE_STATUS_SCHEDULED) {
+    initBattleVitals(
+      battle,
+      Character.deserialize(getBytes(characterKey(battle.player1Char.toString()))),
+      Character.deserialize(getBytes(characterKey(battle.player2Char.toString()))),
+    );
+  }
+  battle.status = BATTLE_STATUS_LIVE;
+
+  // verify attacker owner
+  const attackerChar = attackerCharId;
+  let isPlayer1 = false;
+  if (attackerChar == battle.player1Char.toString()) isPlayer1 = true;
+  const caller = Context.caller();
+  const expectedOwner = isPlayer1 ? battle.player1Owner : battle.player2Owner;
+  assert(caller.toString() == expectedOwner.toString(), 'not turn owner');
+
+  // ensure it's the right turn
   assert((isPlayer1 && battle.currentTurn == 1) || (!isPlayer1 && battle.currentTurn == 2), 'not your turn');
+  assert(stance <= STANCE_EVASIVE, 'invalid stance');
+  assert(!useSpecial || specialReady(battle, isPlayer1 ? 1 : 2), 'special not ready');
+
+  // Oracle battles park the turn until the randomness source calls back
+  if (battle.randomnessSource.length > 0) {
+    battle.awaitingRandomness = true;
+    battle.pendingStance = stance;
+    battle.pendingUseSpecial = useSpecial;
+    battle.pendingSkillSlot = skillSlot;
+    battle.randomnessRetries = 0;
+    endNonReentrant();
+    requestTurnRandomness(battleId, battle);
+    return;
+  }
 
-  // apply DOTs not implemented in this simplified snippet; you can add similar to AMM example
+  // reveal the attacker's secret; every roll derives from the updated seed
+  assert(reveal.length > 0, 'reveal required');
+  applyReveal(battleId, battle, isPlayer1, reveal, stance, useSpecial, skillSlot, nextCommitment);
+  resolveTurn(battleId, battle, isPlayer1, stance, useSpecial, skillSlot);
+  endNonReentrant();
+}
 
-  // wildcard check (prototype uses simple_random, insecure)
-  const wildcardChance: u64 = (isPlayer1 && attackerCharId == 'Trickster') ? 25 : 10; // simple heuristic
-  const roll = simple_random(battle.turnNumber as u64 + battle.createdAt, 1) % 100;
-  if (roll < wildcardChance && !battle.wildcardActive) {
-    // set wildcard
-    battle.wildcardActive = true;
-    battle.wildcardType = (simple_random(battle.turnNumber as u64, 2) % 4) as u8; // limited set
-    battle.wildcardDecisionDeadline = Context.timestamp() + 10000; // 10s proto
-    battle.wildcardPlayer1Decision = -1;
-    battle.wildcardPlayer2Decision = -1;
-    setBytes(battleKey(battleId), battle.serialize());
+/**
+ * Callback from the configured randomness source: mix the delivered value
+ * into the battle seed and resolve the parked turn
+ */
+export function game_fulfillRandomness(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const requestId = ar.nextString().unwrap();
+  const randomness = ar.nextU64().unwrap();
+
+  assert(hasKey(randomnessRequestKey(requestId)), 'unknown randomness request');
+  const battleId = getString(randomnessRequestKey(requestId));
+  assert(hasKey(battleKey(battleId)), 'battle missing');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+
+  // Loot for a finalized battle rather than a parked turn
+  if (requestId == lootRequestId(battleId)) {
+    assert(Context.caller().toString() == battle.randomnessSource, 'unauthorized randomness source');
+    deleteKey(randomnessRequestKey(requestId));
+    generateEvent('RandomnessFulfilled:' + battleId + ':request=' + requestId);
+    rollLootDrops(battleId, battle, randomness);
     endNonReentrant();
-    generateEvent('WildcardTriggered:' + battleId);
     return;
   }
 
-  // compute damage (with equipment, status effects, and combo system)
+  assert(battle.awaitingRandomness, 'not awaiting randomness');
+  assert(battle.status == BATTLE_STATUS_LIVE, 'battle closed');
+  assert(Context.caller().toString() == battle.randomnessSource, 'unauthorized randomness source');
+
+  deleteKey(randomnessRequestKey(requestId));
+
+  const mix = new Args();
+  mix.add(battle.randomSeed);
+  mix.add(randomness);
+  mix.add(requestId);
+  battle.randomSeed = seedFromBytes(sha256(mix.serialize()));
+  battle.awaitingRandomness = false;
+
+  generateEvent('RandomnessFulfilled:' + battleId + ':request=' + requestId);
+  resolveTurn(battleId, battle, battle.currentTurn == 1, battle.pendingStance, battle.pendingUseSpecial, battle.pendingSkillSlot);
+  endNonReentrant();
+}
+
+/**
+ * Ask the battle's randomness source for the parked turn's value and persist the
+ * battle. Callers release the reentrancy guard first: the external call is last so
+ * a synchronous provider can fulfill immediately.
+ */
+function requestTurnRandomness(battleId: string, battle: Battle): void {
+  let requestId = battleId + ':' + battle.turnNumber.toString();
+  if (battle.randomnessRetries > 0) requestId += ':retry' + battle.randomnessRetries.toString();
+  battle.randomnessRequestId = requestId;
+  battle.randomnessRequestedAt = Context.timestamp();
+  setString(randomnessRequestKey(requestId), battleId);
+  setBytes(battleKey(battleId), battle.serialize());
+  generateEvent('RandomnessRequested:' + battleId + ':request=' + requestId);
+  const source = new IRandomnessSource(new Address(battle.randomnessSource));
+  source.requestRandomness(requestId, RANDOMNESS_CALLBACK);
+}
+
+function lootRequestId(battleId: string): string {
+  return battleId + ':loot'; // turn requests always end in a number, so this never collides
+}
+
+/**
+ * Ask a finalized battle's randomness source for the value its loot is rolled
+ * from. Like requestTurnRandomness, callers release the reentrancy guard first.
+ * A request that is never fulfilled simply drops nothing.
+ */
+function requestLootRandomness(battleId: string): void {
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+  const requestId = lootRequestId(battleId);
+  setString(randomnessRequestKey(requestId), battleId);
+  generateEvent('RandomnessRequested:' + battleId + ':request=' + requestId);
+  const source = new IRandomnessSource(new Address(battle.randomnessSource));
+  source.requestRandomness(requestId, RANDOMNESS_CALLBACK);
+}
+
+function randomnessStalled(battle: Battle): bool {
+  return battle.awaitingRandomness && Context.timestamp() > battle.randomnessRequestedAt + RANDOMNESS_FULFILL_TIMEOUT;
+}
+
+/**
+ * Un-park a turn whose randomness never arrived: re-request it up to
+ * MAX_RANDOMNESS_RETRIES times (the stale request id stops being accepted), then
+ * give up. A standalone battle is voided and its wagers refunded; a tournament
+ * battle is decided on remaining HP (player 1, the higher seed, on a tie) so the
+ * bracket can advance. Persists the battle.
+ */
+function recoverStalledRandomness(battleId: string, battle: Battle): void {
+  deleteKey(randomnessRequestKey(battle.randomnessRequestId));
+  if (battle.randomnessRetries < MAX_RANDOMNESS_RETRIES) {
+    battle.randomnessRetries += 1;
+    requestTurnRandomness(battleId, battle);
+    return;
+  }
+
+  battle.awaitingRandomness = false;
+  if (battle.tournamentId.length > 0) {
+    finishBattle(battle, battle.player1Hp >= battle.player2Hp ? 1 : 2);
+    setBytes(battleKey(battleId), battle.serialize());
+    generateEvent('RandomnessAbandoned:' + battleId + ':winner=' + battle.winner.toString());
+  } else {
+    closeBattleBeforeResult(battleId, battle, BATTLE_STATUS_VOIDED);
+    generateEvent('RandomnessAbandoned:' + battleId + ':voided');
+  }
+}
+
+// Anyone may un-park a turn whose randomness request timed out (see recoverStalledRandomness)
+export function game_retryRandomness(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const battleId = ar.nextString().unwrap();
+
+  assert(hasKey(battleKey(battleId)), 'battle missing');
+  const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+  assert(battle.status == BATTLE_STATUS_LIVE, 'battle closed');
+  assert(randomnessStalled(battle), 'randomness not stalled');
+
+  endNonReentrant();
+  recoverStalledRandomness(battleId, battle);
+}
+
+/**
+ * Resolve a validated turn once the battle seed holds fresh randomness.
+ * Persists the battle; callers own the reentrancy guard.
+ */
+function resolveTurn(battleId: string, battle: Battle, isPlayer1: bool, stance: u8, useSpecial: bool, skillSlot: u8): void {
   // load characters to get stats
   const c1Raw = getBytes(characterKey(battle.player1Char.toString()));
   const c2Raw = getBytes(characterKey(battle.player2Char.toString()));
@@ -982,45 +2301,65 @@ export function game_executeTurn(args: StaticArray<u8>): void {
   const attacker = isPlayer1 ? c1 : c2;
   const defender = isPlayer1 ? c2 : c1;
 
+  // wildcard check (Tricksters draw wildcards more often on their turns)
+  const wildcardChance = attacker.characterClass == CLASS_TRICKSTER ? TRICKSTER_WILDCARD_CHANCE : BASE_WILDCARD_CHANCE;
+  const roll = seededRandom(battle.randomSeed, 1) % 100;
+  if (roll < wildcardChance && !battle.wildcardActive) {
+    // set wildcard
+    battle.wildcardActive = true;
+    battle.status = BATTLE_STATUS_AWAITING_WILDCARD;
+    battle.wildcardType = (seededRandom(battle.randomSeed, 2) % WILDCARD_TYPE_COUNT) as u8;
+    battle.wildcardDecisionDeadline = Context.timestamp() + WILDCARD_DECISION_WINDOW;
+    battle.wildcardPlayer1Decision = -1;
+    battle.wildcardPlayer2Decision = -1;
+    setBytes(battleKey(battleId), battle.serialize());
+    generateEvent('WildcardTriggered:' + battleId + ':type=' + battle.wildcardType.toString());
+    return;
+  }
+
+  // compute damage (with equipment, status effects, and combo system)
+
   // Load equipped items and apply stat bonuses
   let attackerDamageMinBonus: u16 = 0;
   let attackerDamageMaxBonus: u16 = 0;
   let attackerCritBonus: u16 = 0;
   let defenderDodgeBonus: u16 = 0;
+  let defenderDefenseBonus: u16 = 0;
 
-  // Load attacker's equipment
-  if (attacker.weaponId.length > 0 && hasKey(equipmentKey(attacker.weaponId))) {
-    const weaponRaw = getBytes(equipmentKey(attacker.weaponId));
-    const weapon = Equipment.deserialize(weaponRaw);
+  // Load attacker's equipment (broken items grant nothing)
+  const weapon = loadWorkingEquipment(attacker.weaponId);
+  if (weapon != null) {
     attackerDamageMinBonus += weapon.damageMinBonus;
     attackerDamageMaxBonus += weapon.damageMaxBonus;
     attackerCritBonus += weapon.critBonus;
   }
-  if (attacker.accessoryId.length > 0 && hasKey(equipmentKey(attacker.accessoryId))) {
-    const accessoryRaw = getBytes(equipmentKey(attacker.accessoryId));
-    const accessory = Equipment.deserialize(accessoryRaw);
-    attackerCritBonus += accessory.critBonus;
+  const attackerAccessory = loadWorkingEquipment(attacker.accessoryId);
+  if (attackerAccessory != null) {
+    attackerCritBonus += attackerAccessory.critBonus;
   }
 
   // Load defender's equipment
-  if (defender.armorId.length > 0 && hasKey(equipmentKey(defender.armorId))) {
-    const armorRaw = getBytes(equipmentKey(defender.armorId));
-    const armor = Equipment.deserialize(armorRaw);
+  const armor = loadWorkingEquipment(defender.armorId);
+  if (armor != null) {
     defenderDodgeBonus += armor.dodgeBonus;
+    defenderDefenseBonus += armor.defenseBonus;
   }
-  if (defender.accessoryId.length > 0 && hasKey(equipmentKey(defender.accessoryId))) {
-    const accessoryRaw = getBytes(equipmentKey(defender.accessoryId));
-    const accessory = Equipment.deserialize(accessoryRaw);
-    defenderDodgeBonus += accessory.dodgeBonus;
+  const defenderAccessory = loadWorkingEquipment(defender.accessoryId);
+  if (defenderAccessory != null) {
+    defenderDodgeBonus += defenderAccessory.dodgeBonus;
   }
 
+  // A stunned attacker loses its action; statuses still tick at the end of the turn
+  const attackerSide: u8 = isPlayer1 ? 1 : 2;
+  const defenderSide: u8 = isPlayer1 ? 2 : 1;
+  const stunned = statusTurns(battle, attackerSide, STATUS_STUN) > 0;
+
   // Skill execution logic
   let skillUsed: u8 = SKILL_NONE;
   let skillDamageMultiplier: u16 = 100; // 100 = 1.0x
   let skillForceCrit = false;
-  let skillDodgeBonus: u16 = 0;
 
-  if (skillSlot >= 1 && skillSlot <= 3) {
+  if (!stunned && skillSlot >= 1 && skillSlot <= 3) {
     // Get equipped skill
     const equippedSkill = skillSlot == 1 ? attacker.skill1 : (skillSlot == 2 ? attacker.skill2 : attacker.skill3);
 
@@ -1033,157 +2372,102 @@ export function game_executeTurn(args: StaticArray<u8>): void {
         currentCooldown = skillSlot == 1 ? battle.player2Skill1Cooldown : (skillSlot == 2 ? battle.player2Skill2Cooldown : battle.player2Skill3Cooldown);
       }
 
-      if (currentCooldown == 0) {
-        const energyCost = getSkillEnergyCost(equippedSkill);
-        if (attacker.currentEnergy >= energyCost) {
-          skillUsed = equippedSkill;
-          attacker.currentEnergy -= energyCost;
-
-          // Apply skill effects
-          if (skillUsed == SKILL_POWER_STRIKE) {
-            skillDamageMultiplier = 150; // 1.5x damage
-          } else if (skillUsed == SKILL_HEAL) {
-            const healAmount = attacker.maxHp * 30 / 100;
-            attacker.currentHp = attacker.currentHp + healAmount > attacker.maxHp ? attacker.maxHp : attacker.currentHp + healAmount;
-            if (isPlayer1) {
-              battle.player1Hp = attacker.currentHp;
-            } else {
-              battle.player2Hp = attacker.currentHp;
-            }
-          } else if (skillUsed == SKILL_POISON_STRIKE) {
-            if (isPlayer1) {
-              battle.player2StatusEffects |= STATUS_POISON;
-              battle.player2StatusDuration = 3;
-            } else {
-              battle.player1StatusEffects |= STATUS_POISON;
-              battle.player1StatusDuration = 3;
-            }
-          } else if (skillUsed == SKILL_STUN_STRIKE) {
-            if (isPlayer1) {
-              battle.player2StatusEffects |= STATUS_STUN;
-              battle.player2StatusDuration = 1;
-            } else {
-              battle.player1StatusEffects |= STATUS_STUN;
-              battle.player1StatusDuration = 1;
-            }
-          } else if (skillUsed == SKILL_SHIELD_WALL) {
-            if (isPlayer1) {
-              battle.player1StatusEffects |= STATUS_SHIELD;
-              battle.player1StatusDuration = 2;
-            } else {
-              battle.player2StatusEffects |= STATUS_SHIELD;
-              battle.player2StatusDuration = 2;
-            }
-          } else if (skillUsed == SKILL_RAGE_MODE) {
-            if (isPlayer1) {
-              battle.player1StatusEffects |= STATUS_RAGE;
-              battle.player1StatusDuration = 2;
-            } else {
-              battle.player2StatusEffects |= STATUS_RAGE;
-              battle.player2StatusDuration = 2;
-            }
-          } else if (skillUsed == SKILL_CRITICAL_EYE) {
-            skillForceCrit = true;
-          } else if (skillUsed == SKILL_DODGE_MASTER) {
-            skillDodgeBonus = 50; // +50% dodge
-            if (isPlayer1) {
-              battle.player1StatusEffects |= STATUS_SHIELD; // Reuse shield for visual indication
-              battle.player1StatusDuration = 2;
-            } else {
-              battle.player2StatusEffects |= STATUS_SHIELD;
-              battle.player2StatusDuration = 2;
-            }
-          } else if (skillUsed == SKILL_BURN_AURA) {
-            if (isPlayer1) {
-              battle.player2StatusEffects |= STATUS_BURN;
-              battle.player2StatusDuration = 3;
-            } else {
-              battle.player1StatusEffects |= STATUS_BURN;
-              battle.player1StatusDuration = 3;
-            }
-          } else if (skillUsed == SKILL_COMBO_BREAKER) {
-            // Reset enemy combo and deal bonus damage
-            if (isPlayer1) {
-              battle.player2ComboCount = 0;
-            } else {
-              battle.player1ComboCount = 0;
-            }
-            skillDamageMultiplier = 120; // 1.2x damage
-          }
+      const def = loadSkillDefinition(equippedSkill);
+      const attackerEnergy = isPlayer1 ? battle.player1Energy : battle.player2Energy;
+      if (currentCooldown == 0 && def != null && def.enabled && attackerEnergy >= def.energyCost) {
+        skillUsed = equippedSkill;
+        if (isPlayer1) {
+          battle.player1Energy -= def.energyCost;
+        } else {
+          battle.player2Energy -= def.energyCost;
+        }
 
-          // Set cooldown
-          const cooldown = getSkillCooldown(skillUsed);
+        // Apply skill effects from its definition
+        skillDamageMultiplier = def.damageMultiplier;
+        skillForceCrit = (def.flags & SKILL_FLAG_FORCE_CRIT) != 0;
+        if (def.healPct > 0) {
+          const maxHp = isPlayer1 ? battle.player1MaxHp : battle.player2MaxHp;
+          const hp = isPlayer1 ? battle.player1Hp : battle.player2Hp;
+          const healAmount = maxHp * (def.healPct as u64) / 100;
+          const healed = hp + healAmount > maxHp ? maxHp : hp + healAmount;
           if (isPlayer1) {
-            if (skillSlot == 1) battle.player1Skill1Cooldown = cooldown;
-            else if (skillSlot == 2) battle.player1Skill2Cooldown = cooldown;
-            else battle.player1Skill3Cooldown = cooldown;
+            battle.player1Hp = healed;
           } else {
-            if (skillSlot == 1) battle.player2Skill1Cooldown = cooldown;
-            else if (skillSlot == 2) battle.player2Skill2Cooldown = cooldown;
-            else battle.player2Skill3Cooldown = cooldown;
+            battle.player2Hp = healed;
           }
-
-          // Save attacker energy
+        }
+        if (def.appliedStatus != STATUS_NONE) {
+          const targetSide = def.target == SKILL_TARGET_SELF ? attackerSide : defenderSide;
+          applyStatusEffects(battle, targetSide, def.appliedStatus, def.statusDuration);
+          if ((def.appliedStatus & STATUS_EVASION) != 0) raiseEvasionBonus(battle, targetSide, def.dodgeBonus);
+        }
+        if ((def.flags & SKILL_FLAG_RESET_ENEMY_COMBO) != 0) {
           if (isPlayer1) {
-            setBytes(characterKey(battle.player1Char.toString()), c1.serialize());
+            battle.player2ComboCount = 0;
           } else {
-            setBytes(characterKey(battle.player2Char.toString()), c2.serialize());
+            battle.player1ComboCount = 0;
           }
         }
+
+        // Set cooldown
+        const cooldown = def.cooldown;
+        if (isPlayer1) {
+          if (skillSlot == 1) battle.player1Skill1Cooldown = cooldown;
+          else if (skillSlot == 2) battle.player1Skill2Cooldown = cooldown;
+          else battle.player1Skill3Cooldown = cooldown;
+        } else {
+          if (skillSlot == 1) battle.player2Skill1Cooldown = cooldown;
+          else if (skillSlot == 2) battle.player2Skill2Cooldown = cooldown;
+          else battle.player2Skill3Cooldown = cooldown;
+        }
       }
     }
   }
 
   // Regenerate energy each turn (both players)
-  if (c1.currentEnergy < MAX_ENERGY) {
-    c1.currentEnergy = c1.currentEnergy + ENERGY_PER_TURN > MAX_ENERGY ? MAX_ENERGY : c1.currentEnergy + ENERGY_PER_TURN;
+  if (battle.player1Energy < MAX_ENERGY) {
+    battle.player1Energy = battle.player1Energy + ENERGY_PER_TURN > MAX_ENERGY ? MAX_ENERGY : battle.player1Energy + ENERGY_PER_TURN;
   }
-  if (c2.currentEnergy < MAX_ENERGY) {
-    c2.currentEnergy = c2.currentEnergy + ENERGY_PER_TURN > MAX_ENERGY ? MAX_ENERGY : c2.currentEnergy + ENERGY_PER_TURN;
+  if (battle.player2Energy < MAX_ENERGY) {
+    battle.player2Energy = battle.player2Energy + ENERGY_PER_TURN > MAX_ENERGY ? MAX_ENERGY : battle.player2Energy + ENERGY_PER_TURN;
   }
 
-  // Check for STUN status on attacker - skip turn if stunned
-  const attackerStatus = isPlayer1 ? battle.player1StatusEffects : battle.player2StatusEffects;
-  const attackerStatusDuration = isPlayer1 ? battle.player1StatusDuration : battle.player2StatusDuration;
-
-  if ((attackerStatus & STATUS_STUN) != 0) {
-    // Attacker is stunned - skip damage phase
-    // Decrement status duration
-    if (isPlayer1) {
-      if (battle.player1StatusDuration > 0) {
-        battle.player1StatusDuration -= 1;
-        if (battle.player1StatusDuration == 0) {
-          battle.player1StatusEffects = STATUS_NONE;
-        }
-      }
-    } else {
-      if (battle.player2StatusDuration > 0) {
-        battle.player2StatusDuration -= 1;
-        if (battle.player2StatusDuration == 0) {
-          battle.player2StatusEffects = STATUS_NONE;
-        }
-      }
-    }
-    // Skip to end of turn
+  if (stunned) {
+    setStance(battle, attackerSide, stance);
+    tickStatusEffects(battleId, battle, attackerSide);
     battle.turnNumber += 1;
     battle.currentTurn = battle.currentTurn == 1 ? 2 : 1;
+    battle.lastTurnTimestamp = Context.timestamp();
+    if (battle.player1Hp == 0 || battle.player2Hp == 0) {
+      finishBattle(battle, battle.player1Hp > 0 ? 1 : 2);
+      generateEvent('BattleEnded:' + battleId);
+    }
     setBytes(battleKey(battleId), battle.serialize());
-    endNonReentrant();
     generateEvent('TurnExecuted:' + battleId + ':Stunned');
     return;
   }
 
+  // Spend the special charge: a full meter first, otherwise the combo streak
+  const special = useSpecial && specialReady(battle, attackerSide);
+  if (special) {
+    if ((isPlayer1 ? battle.player1SpecialMeter : battle.player2SpecialMeter) >= SPECIAL_METER_MAX) {
+      if (isPlayer1) battle.player1SpecialMeter = 0; else battle.player2SpecialMeter = 0;
+    } else {
+      if (isPlayer1) battle.player1ComboCount = 0; else battle.player2ComboCount = 0;
+    }
+  }
+
   // damage base with equipment bonuses
   const totalDamageMin = attacker.baseDamageMin + attackerDamageMinBonus;
   const totalDamageMax = attacker.baseDamageMax + attackerDamageMaxBonus;
   const dmgRange = totalDamageMax > totalDamageMin ? totalDamageMax - totalDamageMin : 0;
-  let rollDamage = (simple_random(battle.turnNumber as u64 + Context.timestamp(), 3) % (dmgRange as u64 + 1)) as u16;
+  let rollDamage = (seededRandom(battle.randomSeed, 3) % (dmgRange as u64 + 1)) as u16;
   let baseDamage = totalDamageMin + rollDamage;
   // level bonus
   baseDamage = baseDamage + (attacker.level - 1) * 2;
 
   // Apply RAGE status - 50% damage increase
-  if ((attackerStatus & STATUS_RAGE) != 0) {
+  if (statusTurns(battle, attackerSide, STATUS_RAGE) > 0) {
     baseDamage = baseDamage + baseDamage / 2;
   }
 
@@ -1192,12 +2476,16 @@ export function game_executeTurn(args: StaticArray<u8>): void {
     baseDamage = (baseDamage as u64 * skillDamageMultiplier as u64 / 100) as u16;
   }
 
-  // crit check with equipment bonus
-  const totalCritChance = attacker.critChance + attackerCritBonus;
-  const critRoll = (simple_random(battle.turnNumber as u64 + Context.timestamp(), 4) % 100) as u16;
+  // crit check with equipment bonus (Assassins also backstab wounded targets)
+  let totalCritChance = attacker.critChance + attackerCritBonus;
+  if (attacker.characterClass == CLASS_ASSASSIN) {
+    totalCritChance += assassinBackstabBonus(isPlayer1 ? battle.player2Hp : battle.player1Hp, isPlayer1 ? battle.player2MaxHp : battle.player1MaxHp);
+  }
+  const critRoll = (seededRandom(battle.randomSeed, 4) % 100) as u16;
   let damage = baseDamage as u64;
-  if (skillForceCrit || critRoll < totalCritChance) {
-    damage = damage * 2;
+  const critReady = statusTurns(battle, attackerSide, STATUS_CRIT_READY) > 0;
+  if (skillForceCrit || critReady || critRoll < totalCritChance) {
+    damage = damage * (attacker.characterClass == CLASS_ASSASSIN ? ASSASSIN_CRIT_DAMAGE_PCT : DEFAULT_CRIT_DAMAGE_PCT) / 100;
   }
 
   // Apply combo multiplier if combo >= 3
@@ -1206,84 +2494,97 @@ export function game_executeTurn(args: StaticArray<u8>): void {
     damage = damage + damage / 5; // 20% bonus
   }
 
-  // apply defense and dodge with equipment bonus (add skill dodge bonus)
-  const totalDodgeChance = defender.dodgeChance + defenderDodgeBonus + skillDodgeBonus;
+  // Stance: attacker's damage profile, then the matchup against the defender's last stance
+  const defenderStance = isPlayer1 ? battle.player2Stance : battle.player1Stance;
+  damage = damage * STANCE_DAMAGE_PCT[stance] / 100;
+  if (stanceBeats(stance, defenderStance)) {
+    damage = damage + damage * STANCE_MATCHUP_PCT / 100;
+  } else if (stanceBeats(defenderStance, stance)) {
+    damage = damage - damage * STANCE_MATCHUP_PCT / 100;
+  }
+  if (special) {
+    damage = damage * SPECIAL_DAMAGE_PCT / 100;
+  }
+
+  // An accepted double-or-nothing wildcard is rolled with this turn's fresh seed
+  const gamble = isPlayer1 ? battle.player1DoubleOrNothing : battle.player2DoubleOrNothing;
+  let gambleEvent = '';
+  if (gamble) {
+    const doubled = seededRandom(battle.randomSeed, 7) % 2 == 0;
+    damage = doubled ? damage * 2 : 0;
+    gambleEvent = doubled ? ':gamble=double' : ':gamble=nothing';
+    if (isPlayer1) battle.player1DoubleOrNothing = false; else battle.player2DoubleOrNothing = false;
+  }
+
+  // apply defense and dodge with equipment bonus (plus the defender's evasion buff and stance)
+  const totalDodgeChance = defender.dodgeChance + defenderDodgeBonus + (evasionBonus(battle, defenderSide) as u16) + STANCE_DODGE_BONUS[defenderStance];
   let dodged = false;
-  if ((simple_random(battle.turnNumber as u64 + Context.timestamp(), 6) % 100) < totalDodgeChance) {
+  if (!special && (seededRandom(battle.randomSeed, 6) % 100) < totalDodgeChance) {
     damage = 0;
     dodged = true;
   } else {
-    damage = damage > defender.defense as u64 ? damage - defender.defense as u64 : 0;
+    // Mage hits are magic damage and ignore flat defense
+    const totalDefense = attacker.characterClass == CLASS_MAGE ? 0 : ((defender.defense + defenderDefenseBonus) as u64) * STANCE_DEFENSE_PCT[defenderStance] / 100;
+    damage = damage > totalDefense ? damage - totalDefense : 0;
+    // A pending "next hit crits" buff is spent by the first swing that is not dodged
+    if (critReady) {
+      setStatusTurns(battle, attackerSide, STATUS_CRIT_READY, 0);
+      syncStatusMirror(battle, attackerSide);
+    }
   }
 
   // Apply SHIELD status on defender - 30% damage reduction
-  const defenderStatus = isPlayer1 ? battle.player2StatusEffects : battle.player1StatusEffects;
-  if ((defenderStatus & STATUS_SHIELD) != 0 && damage > 0) {
+  if (statusTurns(battle, defenderSide, STATUS_SHIELD) > 0 && damage > 0) {
     damage = damage - damage * 30 / 100;
   }
 
+  // Landed hits wear the attacker's weapon and the defender's armor
+  if (damage > 0 && !dodged) {
+    if (weapon != null) wearEquipment(battleId, weapon);
+    if (armor != null) wearEquipment(battleId, armor);
+  }
+
   // Apply damage and update combo counters
   if (isPlayer1) {
+    battle.player1DamageDealt += battle.player2Hp > damage ? damage : battle.player2Hp;
     battle.player2Hp = battle.player2Hp > damage ? battle.player2Hp - damage : 0;
     if (damage > 0 && !dodged) {
       // Successful hit - increment attacker combo, reset defender combo
-      battle.player1ComboCount = battle.player1ComboCount < 255 ? battle.player1ComboCount + 1 : 255;
+      battle.player1ComboCount = addCapped(battle.player1ComboCount, STANCE_COMBO_GAIN[stance], 255);
       battle.player2ComboCount = 0;
+      if (battle.player1ComboCount > battle.player1MaxCombo) battle.player1MaxCombo = battle.player1ComboCount;
     } else {
       // Miss or dodge - reset attacker combo
       battle.player1ComboCount = 0;
     }
   } else {
+    battle.player2DamageDealt += battle.player1Hp > damage ? damage : battle.player1Hp;
     battle.player1Hp = battle.player1Hp > damage ? battle.player1Hp - damage : 0;
     if (damage > 0 && !dodged) {
-      battle.player2ComboCount = battle.player2ComboCount < 255 ? battle.player2ComboCount + 1 : 255;
+      battle.player2ComboCount = addCapped(battle.player2ComboCount, STANCE_COMBO_GAIN[stance], 255);
       battle.player1ComboCount = 0;
+      if (battle.player2ComboCount > battle.player2MaxCombo) battle.player2MaxCombo = battle.player2ComboCount;
     } else {
       battle.player2ComboCount = 0;
     }
   }
 
-  // Apply POISON and BURN DOT effects
-  const p1Status = battle.player1StatusEffects;
-  const p2Status = battle.player2StatusEffects;
-
-  // Apply POISON to player 1 (5% max HP per turn)
-  if ((p1Status & STATUS_POISON) != 0) {
-    const dotDamage = c1.maxHp / 20; // 5%
-    battle.player1Hp = battle.player1Hp > dotDamage ? battle.player1Hp - dotDamage : 0;
-  }
-
-  // Apply BURN to player 1 (8% max HP per turn)
-  if ((p1Status & STATUS_BURN) != 0) {
-    const dotDamage = c1.maxHp * 8 / 100;
-    battle.player1Hp = battle.player1Hp > dotDamage ? battle.player1Hp - dotDamage : 0;
-  }
-
-  // Apply POISON to player 2 (5% max HP per turn)
-  if ((p2Status & STATUS_POISON) != 0) {
-    const dotDamage = c2.maxHp / 20; // 5%
-    battle.player2Hp = battle.player2Hp > dotDamage ? battle.player2Hp - dotDamage : 0;
+  // Both sides charge the special meter from a landed hit
+  if (damage > 0 && !dodged) {
+    if (isPlayer1) {
+      battle.player1SpecialMeter = addCapped(battle.player1SpecialMeter, SPECIAL_METER_PER_HIT, SPECIAL_METER_MAX);
+      battle.player2SpecialMeter = addCapped(battle.player2SpecialMeter, SPECIAL_METER_PER_HIT_TAKEN, SPECIAL_METER_MAX);
+    } else {
+      battle.player2SpecialMeter = addCapped(battle.player2SpecialMeter, SPECIAL_METER_PER_HIT, SPECIAL_METER_MAX);
+      battle.player1SpecialMeter = addCapped(battle.player1SpecialMeter, SPECIAL_METER_PER_HIT_TAKEN, SPECIAL_METER_MAX);
+    }
   }
+  setStance(battle, attackerSide, stance);
 
-  // Apply BURN to player 2 (8% max HP per turn)
-  if ((p2Status & STATUS_BURN) != 0) {
-    const dotDamage = c2.maxHp * 8 / 100;
-    battle.player2Hp = battle.player2Hp > dotDamage ? battle.player2Hp - dotDamage : 0;
-  }
+  applyClassPassives(battleId, battle, attacker, defender, attackerSide, damage > 0 && !dodged, damage);
 
-  // Decrement status durations for both players
-  if (battle.player1StatusDuration > 0) {
-    battle.player1StatusDuration -= 1;
-    if (battle.player1StatusDuration == 0) {
-      battle.player1StatusEffects = STATUS_NONE;
-    }
-  }
-  if (battle.player2StatusDuration > 0) {
-    battle.player2StatusDuration -= 1;
-    if (battle.player2StatusDuration == 0) {
-      battle.player2StatusEffects = STATUS_NONE;
-    }
-  }
+  // DOTs, then durations (shield/rage already modified this turn's hit)
+  tickStatusEffects(battleId, battle, 0);
 
   battle.turnNumber += 1;
   battle.currentTurn = battle.currentTurn == 1 ? 2 : 1;
@@ -1296,24 +2597,19 @@ export function game_executeTurn(args: StaticArray<u8>): void {
   if (battle.player2Skill2Cooldown > 0) battle.player2Skill2Cooldown -= 1;
   if (battle.player2Skill3Cooldown > 0) battle.player2Skill3Cooldown -= 1;
 
-  // Save character states (energy regeneration)
-  setBytes(characterKey(battle.player1Char.toString()), c1.serialize());
-  setBytes(characterKey(battle.player2Char.toString()), c2.serialize());
-
   // Update turn timestamp for autonomous timeout tracking
   battle.lastTurnTimestamp = Context.timestamp();
 
   // check finish
   if (battle.player1Hp == 0 || battle.player2Hp == 0) {
-    battle.isFinished = true;
-    battle.winner = battle.player1Hp > 0 ? 1 : 2;
+    finishBattle(battle, battle.player1Hp > 0 ? 1 : 2);
     generateEvent('BattleEnded:' + battleId);
   }
 
   setBytes(battleKey(battleId), battle.serialize());
-  endNonReentrant();
   const skillEvent = skillUsed != SKILL_NONE ? ':skill=' + skillUsed.toString() : '';
-  generateEvent('TurnExecuted:' + battleId + skillEvent);
+  const specialEvent = special ? ':special' : '';
+  generateEvent('TurnExecuted:' + battleId + ':stance=' + stance.toString() + skillEvent + specialEvent + gambleEvent);
 }
 
 // decide wildcard
@@ -1329,7 +2625,7 @@ export function game_decideWildcard(args: StaticArray<u8>): void {
   const bData = getBytes(battleKey(battleId));
   const battle = Battle.deserialize(bData);
 
-  assert(battle.wildcardActive, 'no wildcard active');
+  assert(battle.status == BATTLE_STATUS_AWAITING_WILDCARD, 'no wildcard active');
   assert(Context.timestamp() <= battle.wildcardDecisionDeadline, 'decision window expired');
 
   const isPlayer1 = playerCharId == battle.player1Char.toString();
@@ -1343,31 +2639,105 @@ export function game_decideWildcard(args: StaticArray<u8>): void {
     battle.wildcardPlayer2Decision = accept ? 1 : 0;
   }
 
+  generateEvent('WildcardDecision:' + battleId + ':player=' + (isPlayer1 ? '1' : '2') + ':accept=' + (accept ? '1' : '0'));
+
   // if both decided resolve
   if (battle.wildcardPlayer1Decision != -1 && battle.wildcardPlayer2Decision != -1) {
-    // simplistic resolution (demo)
-    const p1 = battle.wildcardPlayer1Decision == 1;
-    const p2 = battle.wildcardPlayer2Decision == 1;
-    if (p1 && p2) {
-      // apply some benefit
-      if (battle.wildcardType == 0) {
-        // double damage next turn: represent as combo increment
-        // (for brevity, apply immediate effect)
-        const newHp1 = battle.player1Hp + 50;
-        battle.player1Hp = newHp1 < 1_000_000 ? newHp1 : 1_000_000;
-        const newHp2 = battle.player2Hp + 50;
-        battle.player2Hp = newHp2 < 1_000_000 ? newHp2 : 1_000_000;
-      }
-    }
-    // reset wildcard
-    battle.wildcardActive = false;
-    battle.wildcardPlayer1Decision = -1;
-    battle.wildcardPlayer2Decision = -1;
+    resolveWildcard(battleId, battle);
   }
 
   setBytes(battleKey(battleId), battle.serialize());
   endNonReentrant();
-  generateEvent('WildcardDecision:' + battleId);
+}
+
+// ============================================================================
+// WILDCARDS
+// ============================================================================
+
+// Lose up to pct% of max HP without dropping below 1
+function drainHpNonLethal(battle: Battle, player: u8, pct: u64): void {
+  const hp = player == 1 ? battle.player1Hp : battle.player2Hp;
+  const maxHp = player == 1 ? battle.player1MaxHp : battle.player2MaxHp;
+  let loss = maxHp * pct / 100;
+  if (loss >= hp) loss = hp > 0 ? hp - 1 : 0;
+  if (player == 1) battle.player1Hp = hp - loss; else battle.player2Hp = hp - loss;
+}
+
+// Clear effects on a player; debuffsOnly keeps shield/rage/evasion/crit-ready
+function cleanseStatuses(battle: Battle, player: u8, debuffsOnly: bool): void {
+  for (let i = 0; i < STATUS_EFFECTS.length; i++) {
+    const effect = STATUS_EFFECTS[i];
+    if (debuffsOnly && effect != STATUS_POISON && effect != STATUS_BURN && effect != STATUS_STUN) continue;
+    setStatusTurns(battle, player, effect, 0);
+    setDotStacks(battle, player, effect, 0);
+  }
+  syncStatusMirror(battle, player);
+}
+
+// Effect of one player's choice on cards that act per player
+function applyWildcardForPlayer(battle: Battle, player: u8): void {
+  const p1 = player == 1;
+  if (battle.wildcardType == WILDCARD_DOUBLE_OR_NOTHING) {
+    if (p1) battle.player1DoubleOrNothing = true; else battle.player2DoubleOrNothing = true;
+  } else if (battle.wildcardType == WILDCARD_ENERGY_SURGE) {
+    if (p1) {
+      battle.player1Energy = addCapped(battle.player1Energy, WILDCARD_ENERGY_SURGE_AMOUNT, MAX_ENERGY);
+    } else {
+      battle.player2Energy = addCapped(battle.player2Energy, WILDCARD_ENERGY_SURGE_AMOUNT, MAX_ENERGY);
+    }
+    drainHpNonLethal(battle, player, WILDCARD_ENERGY_SURGE_HP_PCT);
+  } else if (battle.wildcardType == WILDCARD_STATUS_CLEANSE) {
+    cleanseStatuses(battle, player, true);
+  }
+}
+
+/**
+ * Apply the active wildcard for the recorded decisions (undecided = declined),
+ * clear it and hand the turn back. Never ends the battle: every effect leaves HP above 0.
+ * Callers persist the battle.
+ */
+function resolveWildcard(battleId: string, battle: Battle): void {
+  const p1 = battle.wildcardPlayer1Decision == 1;
+  const p2 = battle.wildcardPlayer2Decision == 1;
+  const type = battle.wildcardType;
+
+  if (p1 && p2) {
+    if (type == WILDCARD_HP_SWAP) {
+      const hp1 = battle.player1Hp;
+      battle.player1Hp = battle.player2Hp < battle.player1MaxHp ? battle.player2Hp : battle.player1MaxHp;
+      battle.player2Hp = hp1 < battle.player2MaxHp ? hp1 : battle.player2MaxHp;
+    } else if (type == WILDCARD_STATUS_CLEANSE) {
+      cleanseStatuses(battle, 1, false);
+      cleanseStatuses(battle, 2, false);
+    } else if (type == WILDCARD_SUDDEN_DEATH) {
+      const floor1 = battle.player1MaxHp * WILDCARD_SUDDEN_DEATH_HP_PCT / 100;
+      const floor2 = battle.player2MaxHp * WILDCARD_SUDDEN_DEATH_HP_PCT / 100;
+      const cap1 = floor1 > 0 ? floor1 : 1;
+      const cap2 = floor2 > 0 ? floor2 : 1;
+      if (battle.player1Hp > cap1) battle.player1Hp = cap1;
+      if (battle.player2Hp > cap2) battle.player2Hp = cap2;
+    } else {
+      applyWildcardForPlayer(battle, 1);
+      applyWildcardForPlayer(battle, 2);
+    }
+  } else if (p1) {
+    applyWildcardForPlayer(battle, 1);
+  } else if (p2) {
+    applyWildcardForPlayer(battle, 2);
+  }
+
+  const timedOut = battle.wildcardPlayer1Decision == -1 || battle.wildcardPlayer2Decision == -1;
+  battle.wildcardActive = false;
+  battle.status = BATTLE_STATUS_LIVE;
+  battle.wildcardPlayer1Decision = -1;
+  battle.wildcardPlayer2Decision = -1;
+  // The pause does not count against the player whose turn it is
+  battle.lastTurnTimestamp = Context.timestamp();
+
+  generateEvent(
+    'WildcardResolved:' + battleId + ':type=' + type.toString() +
+    ':p1=' + (p1 ? '1' : '0') + ':p2=' + (p2 ? '1' : '0') + (timedOut ? ':timeout' : ''),
+  );
 }
 
 // finalize battle and optionally notify Prediction contract
@@ -1381,8 +2751,21 @@ export function game_finalizeBattle(args: StaticArray<u8>): void {
   const bData = getBytes(battleKey(battleId));
   const battle = Battle.deserialize(bData);
 
-  assert(battle.isFinished, 'not finished');
+  const lootPending = finalizeBattleResult(battleId, battle);
+  endNonReentrant();
+  if (lootPending) requestLootRandomness(battleId);
+}
+
+/**
+ * Apply a finished battle's result to both characters and mark it finalized.
+ * Shared by game_finalizeBattle and the tournament bot. Returns true when the loot
+ * roll waits on the battle's randomness source; the caller then requests it with
+ * requestLootRandomness once the reentrancy guard is released.
+ */
+function finalizeBattleResult(battleId: string, battle: Battle): bool {
+  assert(battle.status == BATTLE_STATUS_FINISHED, 'not finished');
   assert(battle.winner != 0, 'no winner');
+  assert(!battle.isFinalized, 'already finalized');
 
   // update characters' stats (load & modify)
   const c1Raw = getBytes(characterKey(battle.player1Char.toString()));
@@ -1390,6 +2773,14 @@ export function game_finalizeBattle(args: StaticArray<u8>): void {
   const c1 = Character.deserialize(c1Raw);
   const c2 = Character.deserialize(c2Raw);
 
+  applyMmrUpdate(battle.player1Char.toString(), c1, battle.player2Char.toString(), c2, battle.winner == 1);
+
+  // XP uses pre-battle levels for both sides
+  const xp1 = battleXpReward(c1.level, c2.level, battle.winner == 1, battle.turnNumber, battle.player1DamageDealt);
+  const xp2 = battleXpReward(c2.level, c1.level, battle.winner == 2, battle.turnNumber, battle.player2DamageDealt);
+  applyXP(battle.player1Char.toString(), c1, xp1);
+  applyXP(battle.player2Char.toString(), c2, xp2);
+
   if (battle.winner == 1) {
     c1.totalWins += 1;
     c2.totalLosses += 1;
@@ -1404,67 +2795,602 @@ export function game_finalizeBattle(args: StaticArray<u8>): void {
   setBytes(characterKey(battle.player1Char.toString()), c1.serialize());
   setBytes(characterKey(battle.player2Char.toString()), c2.serialize());
 
+  recordBattleOnLeaderboard(battle.player1Char.toString(), c1, battle.winner == 1, battle.player1DamageDealt, battle.player1MaxCombo);
+  recordBattleOnLeaderboard(battle.player2Char.toString(), c2, battle.winner == 2, battle.player2DamageDealt, battle.player2MaxCombo);
+
+  settleWager(battleId, battle);
+
+  const lootPending = scheduleLootDrops(battleId, battle);
+
+  recordBattleForAchievements(c1.owner, battle.winner == 1, battle.player1MaxCombo);
+  recordBattleForAchievements(c2.owner, battle.winner == 2, battle.player2MaxCombo);
+  evaluateAchievements(c1.owner);
+  evaluateAchievements(c2.owner);
+
+  battle.isFinalized = true;
+  setBytes(battleKey(battleId), battle.serialize());
+
   // Increment finished battles counter
   incrementCounter(TOTAL_BATTLES_FINISHED_KEY);
 
   // Emit an event with winner info: Prediction contract can listen to this event or be authorized to call settle
   generateEvent('BattleFinalized:' + battleId + ':winner=' + battle.winner.toString());
+  return lootPending;
+}
 
-  endNonReentrant();
+// ============================================================================
+// STANCES & SPECIAL ATTACK
+// ============================================================================
+
+// Rock-paper-scissors among the committal stances; balanced and defensive never win or lose a matchup
+function stanceBeats(a: u8, b: u8): bool {
+  return (a == STANCE_AGGRESSIVE && b == STANCE_EVASIVE)
+    || (a == STANCE_EVASIVE && b == STANCE_COUNTER)
+    || (a == STANCE_COUNTER && b == STANCE_AGGRESSIVE);
 }
 
-// admin functions
-export function game_setPaused(args: StaticArray<u8>): void {
-  onlyRole(PAUSER_ROLE);
-  const ar = new Args(args);
-  const paused = ar.nextBool().unwrap();
-  setBool(PAUSED_KEY, paused);
-  generateEvent('Game pause toggled');
+function setStance(battle: Battle, side: u8, stance: u8): void {
+  if (side == 1) battle.player1Stance = stance; else battle.player2Stance = stance;
 }
 
-export function game_grantSettler(args: StaticArray<u8>): void {
-  onlyRole(ADMIN_ROLE);
-  const ar = new Args(args);
-  const addr = ar.nextString().unwrap();
-  setString(AUTH_SETTLER_PREFIX + addr, '1');
-  generateEvent('Game settler granted:' + addr);
+function addCapped(value: u8, amount: u8, cap: u8): u8 {
+  return (value as u32) + (amount as u32) > (cap as u32) ? cap : value + amount;
 }
 
-// View function: get statistics
-export function game_getStats(_: StaticArray<u8>): StaticArray<u8> {
-  const result = new Args();
-  result.add(getCounter(CHARACTER_COUNT_KEY));
-  result.add(getCounter(BATTLE_COUNT_KEY));
-  result.add(getCounter(TOTAL_BATTLES_FINISHED_KEY));
-  return result.serialize();
+// A special is charged by a combo streak or a full meter
+function specialReady(battle: Battle, side: u8): bool {
+  const combo = side == 1 ? battle.player1ComboCount : battle.player2ComboCount;
+  const meter = side == 1 ? battle.player1SpecialMeter : battle.player2SpecialMeter;
+  return combo >= SPECIAL_COMBO_THRESHOLD || meter >= SPECIAL_METER_MAX;
 }
 
-// Enhanced Features: Character Upgrades
-export function game_upgradeCharacter(args: StaticArray<u8>): void {
-  whenNotPaused();
-  nonReentrant();
-  const ar = new Args(args);
-  const charId = ar.nextString().unwrap();
-  const upgradeType = ar.nextU8().unwrap(); // 0=HP, 1=Damage, 2=Crit, 3=Dodge
+// ============================================================================
+// CLASS PASSIVES
+// ============================================================================
 
-  assert(hasKey(characterKey(charId)), 'character not found');
-  const charData = getBytes(characterKey(charId));
-  const char = Character.deserialize(charData);
+// Extra crit % for an Assassin: +1 per ASSASSIN_BACKSTAB_STEP_PCT of HP the target is missing
+function assassinBackstabBonus(targetHp: u64, targetMaxHp: u64): u16 {
+  if (targetMaxHp == 0 || targetHp >= targetMaxHp) return 0;
+  const missingPct = (targetMaxHp - targetHp) * 100 / targetMaxHp;
+  const bonus = missingPct / ASSASSIN_BACKSTAB_STEP_PCT;
+  return (bonus > ASSASSIN_BACKSTAB_MAX_CRIT ? ASSASSIN_BACKSTAB_MAX_CRIT : bonus) as u16;
+}
 
-  const caller = Context.caller();
-  assert(caller.toString() == char.owner.toString(), 'not owner');
+// One point per hit landed or taken; enough points enrage the Warrior for their next swing
+function buildWarriorRage(battleId: string, battle: Battle, side: u8, ownTurn: bool): void {
+  const meter: u8 = (side == 1 ? battle.player1RageMeter : battle.player2RageMeter) + 1;
+  if (meter < WARRIOR_RAGE_THRESHOLD) {
+    if (side == 1) battle.player1RageMeter = meter; else battle.player2RageMeter = meter;
+    return;
+  }
+  if (side == 1) battle.player1RageMeter = 0; else battle.player2RageMeter = 0;
+  // Durations tick after every turn, so rage set off by the Warrior's own swing needs
+  // one more turn to survive the opponent's turn
+  applyStatusEffects(battle, side, STATUS_RAGE, ownTurn ? WARRIOR_RAGE_TURNS + 1 : WARRIOR_RAGE_TURNS);
+  generateEvent('ClassPassive:' + battleId + ':p' + side.toString() + ':warrior_rage');
+}
 
-  // XP requirement for upgrade (example: 100 XP per upgrade)
-  const xpCost: u64 = 100;
-  assert(char.xp >= xpCost, 'insufficient XP');
+/**
+ * Post-hit passives keyed on characterClass. Damage-time passives (Assassin backstab,
+ * Mage defense bypass, Trickster wildcard odds) are applied inline in resolveTurn.
+ */
+function applyClassPassives(
+  battleId: string, battle: Battle, attacker: Character, defender: Character,
+  attackerSide: u8, landed: bool, damage: u64,
+): void {
+  if (!landed) return;
+  const defenderSide: u8 = attackerSide == 1 ? 2 : 1;
+
+  if (attacker.characterClass == CLASS_WARRIOR) buildWarriorRage(battleId, battle, attackerSide, true);
+  if (defender.characterClass == CLASS_WARRIOR) buildWarriorRage(battleId, battle, defenderSide, false);
+
+  // Tank thorns: part of the hit bounces back, but never finishes the attacker
+  if (defender.characterClass == CLASS_TANK && damage > 0) {
+    const attackerHp = attackerSide == 1 ? battle.player1Hp : battle.player2Hp;
+    let reflected = damage * TANK_REFLECT_PCT / 100;
+    if (reflected >= attackerHp) reflected = attackerHp > 0 ? attackerHp - 1 : 0;
+    if (reflected > 0) {
+      if (attackerSide == 1) battle.player1Hp -= reflected; else battle.player2Hp -= reflected;
+      generateEvent('ClassPassive:' + battleId + ':p' + defenderSide.toString() + ':tank_reflect=' + reflected.toString());
+    }
+  }
+}
 
-  char.xp -= xpCost;
+// ============================================================================
+// STATUS EFFECTS
+// ============================================================================
 
-  // Apply upgrade based on type
-  switch (upgradeType) {
-    case 0: // HP upgrade
-      char.maxHp += 10;
-      char.currentHp = char.maxHp;
+const STATUS_EFFECTS: StaticArray<u8> = [
+  STATUS_POISON, STATUS_STUN, STATUS_SHIELD, STATUS_RAGE, STATUS_BURN, STATUS_EVASION, STATUS_CRIT_READY,
+];
+
+function statusName(effect: u8): string {
+  switch (effect) {
+    case STATUS_POISON: return 'poison';
+    case STATUS_STUN: return 'stun';
+    case STATUS_SHIELD: return 'shield';
+    case STATUS_RAGE: return 'rage';
+    case STATUS_BURN: return 'burn';
+    case STATUS_EVASION: return 'evasion';
+    case STATUS_CRIT_READY: return 'crit_ready';
+    default: return 'none';
+  }
+}
+
+function statusTurns(battle: Battle, player: u8, effect: u8): u8 {
+  const p1 = player == 1;
+  switch (effect) {
+    case STATUS_POISON: return p1 ? battle.player1PoisonTurns : battle.player2PoisonTurns;
+    case STATUS_STUN: return p1 ? battle.player1StunTurns : battle.player2StunTurns;
+    case STATUS_SHIELD: return p1 ? battle.player1ShieldTurns : battle.player2ShieldTurns;
+    case STATUS_RAGE: return p1 ? battle.player1RageTurns : battle.player2RageTurns;
+    case STATUS_BURN: return p1 ? battle.player1BurnTurns : battle.player2BurnTurns;
+    case STATUS_EVASION: return p1 ? battle.player1EvasionTurns : battle.player2EvasionTurns;
+    case STATUS_CRIT_READY: return p1 ? battle.player1CritReadyTurns : battle.player2CritReadyTurns;
+    default: return 0;
+  }
+}
+
+function setStatusTurns(battle: Battle, player: u8, effect: u8, turns: u8): void {
+  const p1 = player == 1;
+  if (effect == STATUS_POISON) {
+    if (p1) battle.player1PoisonTurns = turns; else battle.player2PoisonTurns = turns;
+  } else if (effect == STATUS_STUN) {
+    if (p1) battle.player1StunTurns = turns; else battle.player2StunTurns = turns;
+  } else if (effect == STATUS_SHIELD) {
+    if (p1) battle.player1ShieldTurns = turns; else battle.player2ShieldTurns = turns;
+  } else if (effect == STATUS_RAGE) {
+    if (p1) battle.player1RageTurns = turns; else battle.player2RageTurns = turns;
+  } else if (effect == STATUS_BURN) {
+    if (p1) battle.player1BurnTurns = turns; else battle.player2BurnTurns = turns;
+  } else if (effect == STATUS_EVASION) {
+    if (p1) battle.player1EvasionTurns = turns; else battle.player2EvasionTurns = turns;
+    if (turns == 0) {
+      if (p1) battle.player1EvasionBonus = 0; else battle.player2EvasionBonus = 0;
+    }
+  } else if (effect == STATUS_CRIT_READY) {
+    if (p1) battle.player1CritReadyTurns = turns; else battle.player2CritReadyTurns = turns;
+  }
+}
+
+// Dodge % a player gets from an active evasion buff
+function evasionBonus(battle: Battle, player: u8): u8 {
+  if (statusTurns(battle, player, STATUS_EVASION) == 0) return 0;
+  return player == 1 ? battle.player1EvasionBonus : battle.player2EvasionBonus;
+}
+
+// Keep the strongest evasion when buffs overlap
+function raiseEvasionBonus(battle: Battle, player: u8, bonus: u16): void {
+  const capped: u8 = bonus > 100 ? 100 : bonus as u8;
+  if (player == 1) {
+    if (capped > battle.player1EvasionBonus) battle.player1EvasionBonus = capped;
+  } else {
+    if (capped > battle.player2EvasionBonus) battle.player2EvasionBonus = capped;
+  }
+}
+
+// Stacks of a DOT effect (0 for non-DOT effects)
+function dotStacks(battle: Battle, player: u8, effect: u8): u8 {
+  const p1 = player == 1;
+  if (effect == STATUS_POISON) return p1 ? battle.player1PoisonStacks : battle.player2PoisonStacks;
+  if (effect == STATUS_BURN) return p1 ? battle.player1BurnStacks : battle.player2BurnStacks;
+  return 0;
+}
+
+function setDotStacks(battle: Battle, player: u8, effect: u8, stacks: u8): void {
+  const p1 = player == 1;
+  if (effect == STATUS_POISON) {
+    if (p1) battle.player1PoisonStacks = stacks; else battle.player2PoisonStacks = stacks;
+  } else if (effect == STATUS_BURN) {
+    if (p1) battle.player1BurnStacks = stacks; else battle.player2BurnStacks = stacks;
+  }
+}
+
+// Rebuild the legacy bitmask / longest-duration view from the per-effect counters
+function syncStatusMirror(battle: Battle, player: u8): void {
+  let mask: u8 = STATUS_NONE;
+  let longest: u8 = 0;
+  for (let i = 0; i < STATUS_EFFECTS.length; i++) {
+    const turns = statusTurns(battle, player, STATUS_EFFECTS[i]);
+    if (turns == 0) continue;
+    mask |= STATUS_EFFECTS[i];
+    if (turns > longest) longest = turns;
+  }
+  if (player == 1) {
+    battle.player1StatusEffects = mask;
+    battle.player1StatusDuration = longest;
+  } else {
+    battle.player2StatusEffects = mask;
+    battle.player2StatusDuration = longest;
+  }
+}
+
+/**
+ * Apply every effect in `mask` to `player`. Re-applying refreshes the duration
+ * (never shortens it); DOTs also gain a stack up to MAX_DOT_STACKS.
+ */
+function applyStatusEffects(battle: Battle, player: u8, mask: u8, duration: u8): void {
+  for (let i = 0; i < STATUS_EFFECTS.length; i++) {
+    const effect = STATUS_EFFECTS[i];
+    if ((mask & effect) == 0) continue;
+    if (statusTurns(battle, player, effect) < duration) setStatusTurns(battle, player, effect, duration);
+    if (effect == STATUS_POISON || effect == STATUS_BURN) {
+      const stacks = dotStacks(battle, player, effect);
+      setDotStacks(battle, player, effect, stacks < MAX_DOT_STACKS ? stacks + 1 : MAX_DOT_STACKS);
+    }
+  }
+  syncStatusMirror(battle, player);
+}
+
+/**
+ * End-of-turn tick for both players: DOTs deal damage first (so an effect on its last
+ * turn still hits; sized from the battle max HP like heals), then every duration counts down except stun, consumed only by the
+ * turn it skips (`skippedPlayer`, 0 if none), and crit-ready, consumed by the next hit. Emits StatusTick with what ticked or expired.
+ */
+function tickStatusEffects(battleId: string, battle: Battle, skippedPlayer: u8): void {
+  let ticked = '';
+  let expired = '';
+  for (let player: u8 = 1; player <= 2; player++) {
+    const prefix = 'p' + player.toString() + '.';
+    const maxHp = player == 1 ? battle.player1MaxHp : battle.player2MaxHp;
+
+    for (let i = 0; i < STATUS_EFFECTS.length; i++) {
+      const effect = STATUS_EFFECTS[i];
+      if (effect != STATUS_POISON && effect != STATUS_BURN) continue;
+      if (statusTurns(battle, player, effect) == 0) continue;
+      const stacks = dotStacks(battle, player, effect);
+      const pct: u64 = effect == STATUS_POISON ? POISON_DOT_PCT : BURN_DOT_PCT;
+      const dotDamage = maxHp * pct / 100 * (stacks as u64);
+      if (player == 1) {
+        battle.player1Hp = battle.player1Hp > dotDamage ? battle.player1Hp - dotDamage : 0;
+      } else {
+        battle.player2Hp = battle.player2Hp > dotDamage ? battle.player2Hp - dotDamage : 0;
+      }
+      ticked += (ticked.length > 0 ? ',' : '') + prefix + statusName(effect) + 'x' + stacks.toString() + '=' + dotDamage.toString();
+    }
+
+    for (let i = 0; i < STATUS_EFFECTS.length; i++) {
+      const effect = STATUS_EFFECTS[i];
+      const turns = statusTurns(battle, player, effect);
+      if (turns == 0) continue;
+      if (effect == STATUS_STUN && player != skippedPlayer) continue;
+      if (effect == STATUS_CRIT_READY) continue;
+      setStatusTurns(battle, player, effect, turns - 1);
+      if (turns == 1) {
+        setDotStacks(battle, player, effect, 0);
+        expired += (expired.length > 0 ? ',' : '') + prefix + statusName(effect);
+      }
+    }
+    syncStatusMirror(battle, player);
+  }
+
+  if (ticked.length > 0 || expired.length > 0) {
+    generateEvent('StatusTick:' + battleId + ':turn=' + battle.turnNumber.toString() + ':ticked=' + ticked + ':expired=' + expired);
+  }
+}
+
+// ============================================================================
+// MMR (ELO)
+// ============================================================================
+
+function mmrConfig(key: string, fallback: u64): u64 {
+  return hasKey(key) ? getCounter(key) : fallback;
+}
+
+// K-factor for a character based on how many battles it has already played
+function mmrKFactor(char: Character): u64 {
+  const played = char.totalWins + char.totalLosses;
+  if (played < mmrConfig(MMR_PROVISIONAL_GAMES_KEY, DEFAULT_MMR_PROVISIONAL_GAMES)) {
+    return mmrConfig(MMR_PROVISIONAL_K_KEY, DEFAULT_MMR_PROVISIONAL_K);
+  }
+  return mmrConfig(MMR_K_FACTOR_KEY, DEFAULT_MMR_K_FACTOR);
+}
+
+// Expected score (basis points) of the weaker side per 50 MMR of rating gap: 1 / (1 + 10^(gap / 400))
+const ELO_EXPECTED_BPS: StaticArray<i64> = [
+  5000, 4285, 3599, 2966, 2403, 1917, 1510, 1177, 909, 698, 532, 405, 307, 232, 175, 132, 99,
+];
+const ELO_TABLE_STEP: i64 = 50;
+
+// Expected score in basis points for `mmr` against `opponentMmr` (integer only, linear between table points)
+function eloExpectedBps(mmr: u64, opponentMmr: u64): i64 {
+  const gap = i64(opponentMmr) - i64(mmr);
+  const absGap = gap < 0 ? -gap : gap;
+  const maxGap = ELO_TABLE_STEP * i64(ELO_EXPECTED_BPS.length - 1);
+
+  let weaker: i64;
+  if (absGap >= maxGap) {
+    weaker = ELO_EXPECTED_BPS[ELO_EXPECTED_BPS.length - 1];
+  } else {
+    const idx = i32(absGap / ELO_TABLE_STEP);
+    const rem = absGap % ELO_TABLE_STEP;
+    weaker = ELO_EXPECTED_BPS[idx] - (ELO_EXPECTED_BPS[idx] - ELO_EXPECTED_BPS[idx + 1]) * rem / ELO_TABLE_STEP;
+  }
+  return gap >= 0 ? weaker : i64(BASIS_POINTS) - weaker;
+}
+
+// New rating after one game against `opponentMmr`, clamped to the configured floor
+function eloRating(mmr: u64, opponentMmr: u64, won: bool, kFactor: u64): u64 {
+  const score: i64 = won ? i64(BASIS_POINTS) : 0;
+  const scaled = i64(kFactor) * (score - eloExpectedBps(mmr, opponentMmr));
+  const half = i64(BASIS_POINTS / 2);
+  const delta = scaled >= 0 ? (scaled + half) / i64(BASIS_POINTS) : -((-scaled + half) / i64(BASIS_POINTS));
+
+  const floor = mmrConfig(MMR_FLOOR_KEY, DEFAULT_MMR_FLOOR);
+  const next = i64(mmr) + delta;
+  return next < i64(floor) ? floor : u64(next);
+}
+
+// Rate both characters against their pre-battle ratings (must run before win/loss counters move)
+function applyMmrUpdate(char1Id: string, c1: Character, char2Id: string, c2: Character, player1Won: bool): void {
+  const before1 = c1.mmr;
+  const before2 = c2.mmr;
+  c1.mmr = eloRating(before1, before2, player1Won, mmrKFactor(c1));
+  c2.mmr = eloRating(before2, before1, !player1Won, mmrKFactor(c2));
+
+  generateEvent('MMRUpdated:' + char1Id + ':before=' + before1.toString() + ':after=' + c1.mmr.toString());
+  generateEvent('MMRUpdated:' + char2Id + ':before=' + before2.toString() + ':after=' + c2.mmr.toString());
+}
+
+// Args: kFactor (u64), provisionalK (u64), provisionalGames (u64), floor (u64)
+export function game_setMmrConfig(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const kFactor = ar.nextU64().unwrap();
+  const provisionalK = ar.nextU64().unwrap();
+  const provisionalGames = ar.nextU64().unwrap();
+  const floor = ar.nextU64().unwrap();
+
+  assert(kFactor > 0 && kFactor <= 400, 'invalid k-factor');
+  assert(provisionalK >= kFactor && provisionalK <= 400, 'invalid provisional k-factor');
+
+  setCounter(MMR_K_FACTOR_KEY, kFactor);
+  setCounter(MMR_PROVISIONAL_K_KEY, provisionalK);
+  setCounter(MMR_PROVISIONAL_GAMES_KEY, provisionalGames);
+  setCounter(MMR_FLOOR_KEY, floor);
+  generateEvent('MmrConfigUpdated:k=' + kFactor.toString() + ':provisionalK=' + provisionalK.toString() +
+    ':provisionalGames=' + provisionalGames.toString() + ':floor=' + floor.toString());
+}
+
+// Returns: kFactor, provisionalK, provisionalGames, floor (all u64)
+export function game_getMmrConfig(_: StaticArray<u8>): StaticArray<u8> {
+  const result = new Args();
+  result.add(mmrConfig(MMR_K_FACTOR_KEY, DEFAULT_MMR_K_FACTOR));
+  result.add(mmrConfig(MMR_PROVISIONAL_K_KEY, DEFAULT_MMR_PROVISIONAL_K));
+  result.add(mmrConfig(MMR_PROVISIONAL_GAMES_KEY, DEFAULT_MMR_PROVISIONAL_GAMES));
+  result.add(mmrConfig(MMR_FLOOR_KEY, DEFAULT_MMR_FLOOR));
+  return result.serialize();
+}
+
+// ============================================================================
+// PROGRESSION (XP & LEVELS)
+// ============================================================================
+
+// XP for one side of a finished battle
+function battleXpReward(level: u16, opponentLevel: u16, won: bool, turns: u32, damageDealt: u64): u64 {
+  const base = won ? XP_WIN_BASE : XP_LOSS_BASE;
+  let xp = base;
+
+  if (opponentLevel > level) {
+    const bonus = (opponentLevel - level) as u64 * XP_PER_LEVEL_GAP;
+    xp += bonus < XP_MAX_LEVEL_GAP_BONUS ? bonus : XP_MAX_LEVEL_GAP_BONUS;
+  } else if (level > opponentLevel) {
+    // Beating up lower levels pays less, but never below half the base reward
+    const penalty = (level - opponentLevel) as u64 * XP_PER_LEVEL_GAP / 2;
+    xp -= penalty < base / 2 ? penalty : base / 2;
+  }
+
+  const lengthBonus = turns as u64 * XP_PER_TURN;
+  xp += lengthBonus < XP_MAX_LENGTH_BONUS ? lengthBonus : XP_MAX_LENGTH_BONUS;
+
+  const damageBonus = damageDealt / XP_DAMAGE_DIVISOR;
+  xp += damageBonus < XP_MAX_DAMAGE_BONUS ? damageBonus : XP_MAX_DAMAGE_BONUS;
+
+  return xp;
+}
+
+// Add XP and level up as many times as it covers (caller persists the character)
+function applyXP(charId: string, char: Character, xpAmount: u64): void {
+  char.xp += xpAmount;
+  generateEvent('XPGranted:' + charId + ':amount=' + xpAmount.toString());
+
+  while (char.level < MAX_CHARACTER_LEVEL) {
+    const xpForNextLevel = (char.level as u64) * XP_PER_LEVEL;
+    if (char.xp < xpForNextLevel) break;
+
+    char.level += 1;
+    char.xp -= xpForNextLevel;
+    // Grant bonus stats on level up
+    char.maxHp += 5;
+    char.currentHp = char.maxHp;
+    char.baseDamageMin += 1;
+    char.baseDamageMax += 2;
+    generateEvent('CharacterLevelUp:' + charId + ':level=' + char.level.toString());
+  }
+  recordPlayerStatMax(char.owner, STAT_MAX_LEVEL, char.level as u64);
+}
+
+// ============================================================================
+// ACHIEVEMENTS
+// ============================================================================
+//
+// Gameplay hooks only bump per-player stats; evaluateAchievements() compares
+// every stat against its target and unlocks whatever is newly reached.
+
+function recordPlayerStatMax(player: Address, stat: string, value: u64): void {
+  const key = playerStatKey(player, stat);
+  if (value > getCounter(key)) setCounter(key, value);
+}
+
+function recordBattleForAchievements(player: Address, won: bool, maxCombo: u8): void {
+  if (won) {
+    incrementCounter(playerStatKey(player, STAT_WINS));
+    incrementCounter(playerStatKey(player, STAT_WIN_STREAK));
+  } else {
+    setCounter(playerStatKey(player, STAT_WIN_STREAK), 0);
+  }
+  recordPlayerStatMax(player, STAT_BEST_COMBO, maxCombo as u64);
+}
+
+// Value an achievement is measured against
+function achievementTarget(achievementId: u8): u64 {
+  switch (achievementId) {
+    case ACHIEVEMENT_FIRST_WIN: return 1;
+    case ACHIEVEMENT_10_WINS: return 10;
+    case ACHIEVEMENT_50_WINS: return 50;
+    case ACHIEVEMENT_100_WINS: return 100;
+    case ACHIEVEMENT_TOURNAMENT_WIN: return 1;
+    case ACHIEVEMENT_5_WIN_STREAK: return ACHIEVEMENT_STREAK_THRESHOLD;
+    case ACHIEVEMENT_COMBO_MASTER: return ACHIEVEMENT_COMBO_THRESHOLD as u64;
+    case ACHIEVEMENT_SKILL_MASTER: return SKILL_COMBO_BREAKER as u64;
+    case ACHIEVEMENT_LEGENDARY_EQUIPMENT: return 1;
+    case ACHIEVEMENT_MAX_LEVEL: return MAX_CHARACTER_LEVEL as u64;
+    default: return 0;
+  }
+}
+
+function achievementProgress(player: Address, achievementId: u8): u64 {
+  switch (achievementId) {
+    case ACHIEVEMENT_FIRST_WIN:
+    case ACHIEVEMENT_10_WINS:
+    case ACHIEVEMENT_50_WINS:
+    case ACHIEVEMENT_100_WINS:
+      return getCounter(playerStatKey(player, STAT_WINS));
+    case ACHIEVEMENT_TOURNAMENT_WIN: return getCounter(playerStatKey(player, STAT_TOURNAMENT_WINS));
+    case ACHIEVEMENT_5_WIN_STREAK: return getCounter(playerStatKey(player, STAT_WIN_STREAK));
+    case ACHIEVEMENT_COMBO_MASTER: return getCounter(playerStatKey(player, STAT_BEST_COMBO));
+    case ACHIEVEMENT_SKILL_MASTER: return getCounter(playerStatKey(player, STAT_SKILLS_LEARNED));
+    case ACHIEVEMENT_LEGENDARY_EQUIPMENT: return getCounter(playerStatKey(player, STAT_LEGENDARY_ITEMS));
+    case ACHIEVEMENT_MAX_LEVEL: return getCounter(playerStatKey(player, STAT_MAX_LEVEL));
+    default: return 0;
+  }
+}
+
+function hasAchievement(record: PlayerAchievements, achievementId: u8): bool {
+  if (record.unlockedAchievements.length == 0) return false;
+  const id = achievementId.toString();
+  const unlocked = record.unlockedAchievements.split(',');
+  for (let i = 0; i < unlocked.length; i++) {
+    if (unlocked[i] == id) return true;
+  }
+  return false;
+}
+
+function loadPlayerAchievements(player: Address): PlayerAchievements {
+  const key = achievementsKey(player.toString());
+  if (hasKey(key)) return PlayerAchievements.deserialize(getBytes(key));
+  const record = new PlayerAchievements();
+  record.playerAddress = player.toString();
+  return record;
+}
+
+// Record an achievement with its unlock timestamp (caller checks it is not already unlocked)
+function unlockAchievement(record: PlayerAchievements, achievementId: u8): void {
+  const id = achievementId.toString();
+  if (record.unlockedAchievements.length > 0) {
+    record.unlockedAchievements += ',' + id;
+    record.achievementTimestamps += ',' + Context.timestamp().toString();
+  } else {
+    record.unlockedAchievements = id;
+    record.achievementTimestamps = Context.timestamp().toString();
+  }
+  generateEvent('AchievementUnlocked:' + record.playerAddress + ':id=' + id);
+}
+
+// Unlock every achievement whose target the player has reached; already unlocked ones are left untouched
+function evaluateAchievements(player: Address): void {
+  const record = loadPlayerAchievements(player);
+  let changed = false;
+  for (let id: u8 = 1; id <= ACHIEVEMENT_COUNT; id++) {
+    if (!hasAchievement(record, id) && achievementProgress(player, id) >= achievementTarget(id)) {
+      unlockAchievement(record, id);
+      changed = true;
+    }
+  }
+  if (changed) {
+    setBytes(achievementsKey(player.toString()), record.serialize());
+  }
+}
+
+// Args: playerAddress
+// Returns: serialized PlayerAchievements, or 'null' if nothing unlocked yet
+export function game_getAchievements(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const player = ar.nextString().unwrap();
+  if (!hasKey(achievementsKey(player))) return stringToBytes('null');
+  return getBytes(achievementsKey(player));
+}
+
+// Args: playerAddress
+// Returns: count (u8), then per achievement: id (u8), unlocked (bool), progress (u64), target (u64)
+export function game_getAchievementProgress(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const player = new Address(ar.nextString().unwrap());
+  const record = loadPlayerAchievements(player);
+
+  const result = new Args();
+  result.add(ACHIEVEMENT_COUNT);
+  for (let id: u8 = 1; id <= ACHIEVEMENT_COUNT; id++) {
+    result.add(id);
+    result.add(hasAchievement(record, id));
+    result.add(achievementProgress(player, id));
+    result.add(achievementTarget(id));
+  }
+  return result.serialize();
+}
+
+// admin functions
+export function game_setPaused(args: StaticArray<u8>): void {
+  onlyRole(PAUSER_ROLE);
+  const ar = new Args(args);
+  const paused = ar.nextBool().unwrap();
+  setBool(PAUSED_KEY, paused);
+  generateEvent('Game pause toggled');
+}
+
+export function game_grantSettler(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const addr = ar.nextString().unwrap();
+  setString(AUTH_SETTLER_PREFIX + addr, '1');
+  generateEvent('Game settler granted:' + addr);
+}
+
+// View function: get statistics
+export function game_getStats(_: StaticArray<u8>): StaticArray<u8> {
+  const result = new Args();
+  result.add(getCounter(CHARACTER_COUNT_KEY));
+  result.add(getCounter(BATTLE_COUNT_KEY));
+  result.add(getCounter(TOTAL_BATTLES_FINISHED_KEY));
+  return result.serialize();
+}
+
+// Enhanced Features: Character Upgrades
+export function game_upgradeCharacter(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const charId = ar.nextString().unwrap();
+  const upgradeType = ar.nextU8().unwrap(); // 0=HP, 1=Damage, 2=Crit, 3=Dodge
+
+  assert(hasKey(characterKey(charId)), 'character not found');
+  const charData = getBytes(characterKey(charId));
+  const char = Character.deserialize(charData);
+
+  const caller = Context.caller();
+  assert(caller.toString() == char.owner.toString(), 'not owner');
+
+  // XP requirement for upgrade (example: 100 XP per upgrade)
+  const xpCost: u64 = 100;
+  assert(char.xp >= xpCost, 'insufficient XP');
+
+  char.xp -= xpCost;
+
+  // Apply upgrade based on type
+  switch (upgradeType) {
+    case 0: // HP upgrade
+      char.maxHp += 10;
+      char.currentHp = char.maxHp;
       break;
     case 1: // Damage upgrade
       char.baseDamageMin += 2;
@@ -1487,7 +3413,7 @@ export function game_upgradeCharacter(args: StaticArray<u8>): void {
 
 // Grant XP to character (called internally or by admin)
 export function game_grantXP(args: StaticArray<u8>): void {
-  onlyRole(ADMIN_ROLE); // In production, this could be called automatically after battles
+  onlyRole(ADMIN_ROLE); // Battles award XP on finalize; this remains for admin adjustments
   const ar = new Args(args);
   const charId = ar.nextString().unwrap();
   const xpAmount = ar.nextU64().unwrap();
@@ -1496,23 +3422,10 @@ export function game_grantXP(args: StaticArray<u8>): void {
   const charData = getBytes(characterKey(charId));
   const char = Character.deserialize(charData);
 
-  char.xp += xpAmount;
-
-  // Level up logic
-  const xpForNextLevel = (char.level as u64) * 200; // Example: level * 200 XP needed
-  if (char.xp >= xpForNextLevel) {
-    char.level += 1;
-    char.xp -= xpForNextLevel;
-    // Grant bonus stats on level up
-    char.maxHp += 5;
-    char.currentHp = char.maxHp;
-    char.baseDamageMin += 1;
-    char.baseDamageMax += 2;
-    generateEvent('CharacterLevelUp:' + charId + ':level=' + char.level.toString());
-  }
+  applyXP(charId, char, xpAmount);
 
   setBytes(characterKey(charId), char.serialize());
-  generateEvent('XPGranted:' + charId + ':amount=' + xpAmount.toString());
+  evaluateAchievements(char.owner);
 }
 
 // Heal character (costs some resource or cooldown)
@@ -1537,15 +3450,143 @@ export function game_healCharacter(args: StaticArray<u8>): void {
   generateEvent('CharacterHealed:' + charId);
 }
 
-// Get character leaderboard (top N characters by MMR)
+// ============================================================================
+// LEADERBOARD
+// ============================================================================
+//
+// Characters enter the leaderboard when their first battle is finalized. The
+// ranking (MMR desc) lives in leaderboard_rank:<n> / leaderboard_pos:<id> and
+// is kept sorted incrementally: an updated entry only swaps past the
+// neighbours it overtakes. Only the top LEADERBOARD_MAX_SIZE characters are
+// ranked; everyone else keeps their LeaderboardEntry stats and (re)enters the
+// ranking once a result lifts them above the last ranked MMR.
+
+function loadLeaderboardEntry(charId: string, char: Character): LeaderboardEntry {
+  if (hasKey(leaderboardKey(charId))) {
+    return LeaderboardEntry.deserialize(getBytes(leaderboardKey(charId)));
+  }
+  const entry = new LeaderboardEntry();
+  entry.characterId = charId;
+  entry.characterName = char.name;
+  entry.owner = char.owner;
+  entry.mmr = char.mmr;
+  return entry;
+}
+
+function recordBattleOnLeaderboard(charId: string, char: Character, won: bool, damageDealt: u64, maxCombo: u8): void {
+  const entry = loadLeaderboardEntry(charId, char);
+  entry.characterName = char.name;
+  entry.owner = char.owner;
+  entry.mmr = char.mmr;
+  if (won) {
+    entry.wins += 1;
+  } else {
+    entry.losses += 1;
+  }
+  entry.totalDamageDealt += damageDealt;
+  if (maxCombo > entry.highestCombo) entry.highestCombo = maxCombo;
+
+  setBytes(leaderboardKey(charId), entry.serialize());
+  repositionOnLeaderboard(charId, entry.mmr);
+}
+
+function leaderboardMmrAt(rank: u64): u64 {
+  const charId = getString(leaderboardRankKey(rank));
+  return LeaderboardEntry.deserialize(getBytes(leaderboardKey(charId))).mmr;
+}
+
+function placeOnLeaderboard(rank: u64, charId: string): void {
+  setString(leaderboardRankKey(rank), charId);
+  setCounter(leaderboardPosKey(charId), rank);
+}
+
+/**
+ * Move a character to its sorted position. Unranked characters enter at the
+ * bottom while there is room, otherwise they must beat the last ranked MMR and
+ * take its place. Work is bounded by LEADERBOARD_MAX_SIZE.
+ */
+function repositionOnLeaderboard(charId: string, mmr: u64): void {
+  let rank: u64;
+  if (hasKey(leaderboardPosKey(charId))) {
+    rank = getCounter(leaderboardPosKey(charId));
+  } else {
+    rank = getCounter(LEADERBOARD_SIZE_KEY);
+    if (rank < LEADERBOARD_MAX_SIZE) {
+      setCounter(LEADERBOARD_SIZE_KEY, rank + 1);
+    } else {
+      rank = LEADERBOARD_MAX_SIZE - 1;
+      if (leaderboardMmrAt(rank) >= mmr) return;
+      deleteKey(leaderboardPosKey(getString(leaderboardRankKey(rank))));
+    }
+  }
+
+  while (rank > 0 && leaderboardMmrAt(rank - 1) < mmr) {
+    placeOnLeaderboard(rank, getString(leaderboardRankKey(rank - 1)));
+    rank -= 1;
+  }
+  const size = getCounter(LEADERBOARD_SIZE_KEY);
+  while (rank + 1 < size && leaderboardMmrAt(rank + 1) > mmr) {
+    placeOnLeaderboard(rank, getString(leaderboardRankKey(rank + 1)));
+    rank += 1;
+  }
+  placeOnLeaderboard(rank, charId);
+}
+
+// Append serialized entries for ranks [from, to) to a result
+function addLeaderboardPage(result: Args, from: u64, to: u64): void {
+  result.add((to - from) as u32);
+  for (let rank = from; rank < to; rank++) {
+    const charId = getString(leaderboardRankKey(rank));
+    result.add(getBytes(leaderboardKey(charId)));
+  }
+}
+
+// Get character leaderboard page (by MMR)
+// Args: limit (u32, max 50), offset (u32, optional)
+// Returns: total ranked (u64), count (u32), count x serialized LeaderboardEntry (bytes)
 export function game_getLeaderboard(args: StaticArray<u8>): StaticArray<u8> {
-  // Note: This is a simplified version. In production, maintain a sorted index
   const ar = new Args(args);
   const topN = ar.nextU32().unwrap();
+  const offsetArg = ar.nextU32();
+  const offset = offsetArg.isErr() ? 0 : offsetArg.unwrap() as u64;
+
+  const size = getCounter(LEADERBOARD_SIZE_KEY);
+  const limit = (topN < LEADERBOARD_MAX_PAGE ? topN : LEADERBOARD_MAX_PAGE) as u64;
+  const from = offset < size ? offset : size;
+  const to = from + limit < size ? from + limit : size;
+
+  const result = new Args();
+  result.add(size);
+  addLeaderboardPage(result, from, to);
+  return result.serialize();
+}
+
+// Rank of a character with optional neighbours around it
+// Args: characterId, radius (u32, optional)
+// Returns: rank (u64, 1-based, 0 = unranked), first rank of the list (u64), count (u32), entries (bytes)
+export function game_getCharacterRank(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const charId = ar.nextString().unwrap();
+  const radiusArg = ar.nextU32();
+  let radius = radiusArg.isErr() ? 0 : radiusArg.unwrap() as u64;
+  if (radius > (LEADERBOARD_MAX_PAGE / 2) as u64) radius = (LEADERBOARD_MAX_PAGE / 2) as u64;
 
-  // Return empty for now - implement with indexing service or iterator
   const result = new Args();
-  result.add('Leaderboard: implement with indexer');
+  if (!hasKey(leaderboardPosKey(charId))) {
+    result.add(0 as u64);
+    result.add(0 as u64);
+    result.add(0 as u32);
+    return result.serialize();
+  }
+
+  const rank = getCounter(leaderboardPosKey(charId));
+  const size = getCounter(LEADERBOARD_SIZE_KEY);
+  const from = rank > radius ? rank - radius : 0;
+  const to = rank + radius + 1 < size ? rank + radius + 1 : size;
+
+  result.add(rank + 1);
+  result.add(from + 1);
+  addLeaderboardPage(result, from, to);
   return result.serialize();
 }
 
@@ -1573,8 +3614,15 @@ export function game_createEquipment(args: StaticArray<u8>): void {
   equip.rarity = rarity;
   equip.createdAt = Context.timestamp();
 
-  // Set stats based on rarity
-  switch (rarity) {
+  applyRarityStats(equip);
+  mintEquipment(equip);
+  endNonReentrant();
+  generateEvent('EquipmentCreated:' + equipmentId + ':rarity=' + rarity.toString());
+}
+
+// Fixed stats for an item's rarity (armor also gets flat defense)
+function applyRarityStats(equip: Equipment): void {
+  switch (equip.rarity) {
     case RARITY_COMMON:
       equip.hpBonus = 10;
       equip.damageMinBonus = 1;
@@ -1609,11 +3657,22 @@ export function game_createEquipment(args: StaticArray<u8>): void {
       break;
   }
   equip.currentDurability = equip.durability;
+  // Armor turns its rarity into flat defense: 2 / 4 / 7 / 12
+  if (equip.type == 1) {
+    equip.defenseBonus = equip.rarity == RARITY_COMMON ? 2 : (equip.rarity == RARITY_RARE ? 4 : (equip.rarity == RARITY_EPIC ? 7 : 12));
+  }
+}
 
-  setBytes(equipmentKey(equipmentId), equip.serialize());
+// Store a new item and index it under its owner
+function mintEquipment(equip: Equipment): void {
+  setBytes(equipmentKey(equip.equipmentId), equip.serialize());
   incrementCounter(EQUIPMENT_COUNT_KEY);
-  endNonReentrant();
-  generateEvent('EquipmentCreated:' + equipmentId + ':rarity=' + rarity.toString());
+  addToOwnerEnumeration(equip.owner.toString(), equip.equipmentId);
+  generateEvent('Transfer::' + equip.owner.toString() + ':' + equip.equipmentId);
+  if (equip.rarity == RARITY_LEGENDARY) {
+    incrementCounter(playerStatKey(equip.owner, STAT_LEGENDARY_ITEMS));
+    evaluateAchievements(equip.owner);
+  }
 }
 
 // Equip item to character
@@ -1633,13 +3692,32 @@ export function game_equipItem(args: StaticArray<u8>): void {
   const caller = Context.caller();
   assert(caller.toString() == char.owner.toString(), 'not character owner');
   assert(caller.toString() == equip.owner.toString(), 'not equipment owner');
+  assert(equip.currentDurability > 0, 'equipment broken');
+  assert(equip.equippedBy.length == 0, 'equipment already equipped');
+  assertNotListed(equipmentId);
+  assert(equip.type <= 2, 'invalid equipment type');
+
+  // Free whatever currently occupies the slot
+  const previousId = equip.type == 0 ? char.weaponId : (equip.type == 1 ? char.armorId : char.accessoryId);
+  if (previousId.length > 0 && hasKey(equipmentKey(previousId))) {
+    const previous = Equipment.deserialize(getBytes(equipmentKey(previousId)));
+    previous.equippedBy = '';
+    setBytes(equipmentKey(previousId), previous.serialize());
+  }
 
   // Equip based on type
   if (equip.type == 0) char.weaponId = equipmentId;
   else if (equip.type == 1) char.armorId = equipmentId;
-  else if (equip.type == 2) char.accessoryId = equipmentId;
+  else char.accessoryId = equipmentId;
 
+  equip.equippedBy = charId;
+  setBytes(equipmentKey(equipmentId), equip.serialize());
   setBytes(characterKey(charId), char.serialize());
+  // Covers legendary items received by transfer rather than minted to this owner
+  if (equip.rarity == RARITY_LEGENDARY) {
+    recordPlayerStatMax(caller, STAT_LEGENDARY_ITEMS, 1);
+    evaluateAchievements(caller);
+  }
   endNonReentrant();
   generateEvent('ItemEquipped:' + charId + ':' + equipmentId);
 }
@@ -1657,139 +3735,1876 @@ export function game_transferEquipment(args: StaticArray<u8>): void {
 
   const caller = Context.caller();
   assert(caller.toString() == equip.owner.toString(), 'not owner');
+  assertNotListed(equipmentId);
+
+  moveEquipment(equip, toAddr);
+  endNonReentrant();
+  generateEvent('EquipmentTransferred:' + equipmentId);
+}
+
+// Take an item off the character wearing it
+export function game_unequipItem(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+
+  const caller = Context.caller();
+  assert(caller.toString() == equip.owner.toString(), 'not equipment owner');
+  assert(equip.equippedBy.length > 0, 'equipment not equipped');
+
+  const charId = equip.equippedBy;
+  unequipFromCharacter(equip);
+  setBytes(equipmentKey(equipmentId), equip.serialize());
+  endNonReentrant();
+  generateEvent('ItemUnequipped:' + charId + ':' + equipmentId);
+}
+
+function clearEquipmentSlot(char: Character, equipmentId: string): void {
+  if (char.weaponId == equipmentId) char.weaponId = '';
+  else if (char.armorId == equipmentId) char.armorId = '';
+  else if (char.accessoryId == equipmentId) char.accessoryId = '';
+}
+
+// Clear the wearer's slot and the back-reference (caller persists the item)
+function unequipFromCharacter(equip: Equipment): void {
+  if (equip.equippedBy.length == 0) return;
+  if (hasKey(characterKey(equip.equippedBy))) {
+    const char = Character.deserialize(getBytes(characterKey(equip.equippedBy)));
+    clearEquipmentSlot(char, equip.equipmentId);
+    setBytes(characterKey(equip.equippedBy), char.serialize());
+  }
+  equip.equippedBy = '';
+}
+
+// Read equipment
+export function game_readEquipment(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  if (!hasKey(equipmentKey(equipmentId))) return stringToBytes('null');
+  return getBytes(equipmentKey(equipmentId));
+}
+
+// Equipped item that still has durability, or null
+function loadWorkingEquipment(equipmentId: string): Equipment | null {
+  if (equipmentId.length == 0 || !hasKey(equipmentKey(equipmentId))) return null;
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+  return equip.currentDurability > 0 ? equip : null;
+}
+
+// HP added on top of maxHp at battle start by the character's working items
+function equipmentHpBonus(char: Character): u64 {
+  let bonus: u64 = 0;
+  const weapon = loadWorkingEquipment(char.weaponId);
+  if (weapon != null) bonus += weapon.hpBonus;
+  const armor = loadWorkingEquipment(char.armorId);
+  if (armor != null) bonus += armor.hpBonus;
+  const accessory = loadWorkingEquipment(char.accessoryId);
+  if (accessory != null) bonus += accessory.hpBonus;
+  return bonus;
+}
+
+// Spend one durability point; a broken item is taken off the character wearing it
+function wearEquipment(battleId: string, equip: Equipment): void {
+  equip.currentDurability -= 1;
+  if (equip.currentDurability == 0) {
+    unequipFromCharacter(equip);
+    generateEvent('EquipmentBroken:' + equip.equipmentId + ':battle=' + battleId);
+  }
+  setBytes(equipmentKey(equip.equipmentId), equip.serialize());
+}
+
+// Set the ERC20 accepted for repairs (admin)
+export function game_setRepairToken(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const token = ar.nextString().unwrap();
+  setString(REPAIR_TOKEN_KEY, token);
+  generateEvent('RepairTokenSet:' + token);
+}
+
+// Restore an item to full durability
+// Args: equipmentId, method (u8: 0 = ERC20 repair token, 1 = XP), characterId (XP payer, required for method 1)
+export function game_repairEquipment(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  const method = ar.nextU8().unwrap();
+
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+
+  const caller = Context.caller();
+  assert(caller.toString() == equip.owner.toString(), 'not owner');
+  assert(equip.currentDurability < equip.durability, 'nothing to repair');
+
+  const missing = (equip.durability - equip.currentDurability) as u64;
+  const rarityFactor = (equip.rarity as u64) + 1;
+
+  let cost: u64 = 0;
+  if (method == REPAIR_METHOD_TOKEN) {
+    const tokenAddr = getString(REPAIR_TOKEN_KEY);
+    assert(tokenAddr.length > 0, 'repair token not set');
+    cost = missing * REPAIR_TOKEN_COST_PER_POINT * rarityFactor;
+    const token = new IERC20(new Address(tokenAddr));
+    token.transferFrom(caller, Context.callee(), cost);
+    setCounter(TREASURY_BALANCE_KEY, getCounter(TREASURY_BALANCE_KEY) + cost);
+  } else if (method == REPAIR_METHOD_XP) {
+    const charId = ar.nextString().unwrap();
+    assert(hasKey(characterKey(charId)), 'character not found');
+    const char = Character.deserialize(getBytes(characterKey(charId)));
+    assert(caller.toString() == char.owner.toString(), 'not character owner');
+    cost = missing * REPAIR_XP_COST_PER_POINT * rarityFactor;
+    assert(char.xp >= cost, 'insufficient XP');
+    char.xp -= cost;
+    setBytes(characterKey(charId), char.serialize());
+  } else {
+    assert(false, 'invalid repair method');
+  }
+
+  equip.currentDurability = equip.durability;
+  setBytes(equipmentKey(equipmentId), equip.serialize());
+  endNonReentrant();
+  generateEvent('EquipmentRepaired:' + equipmentId + ':method=' + method.toString() + ':cost=' + cost.toString());
+}
+
+// ============================================================================
+// EQUIPMENT NFT (MRC-721)
+// ============================================================================
+
+// Append an item to its owner's enumeration list
+function addToOwnerEnumeration(owner: string, equipmentId: string): void {
+  const count = getCounter(nftOwnedCountKey(owner));
+  setString(nftOwnedKey(owner, count), equipmentId);
+  setCounter(nftOwnedIndexKey(equipmentId), count);
+  setCounter(nftOwnedCountKey(owner), count + 1);
+}
+
+// Swap-and-pop an item out of its owner's enumeration list
+function removeFromOwnerEnumeration(owner: string, equipmentId: string): void {
+  if (!hasKey(nftOwnedIndexKey(equipmentId))) return;
+  const index = getCounter(nftOwnedIndexKey(equipmentId));
+  const last = getCounter(nftOwnedCountKey(owner)) - 1;
+  if (index != last) {
+    const lastId = getString(nftOwnedKey(owner, last));
+    setString(nftOwnedKey(owner, index), lastId);
+    setCounter(nftOwnedIndexKey(lastId), index);
+  }
+  deleteKey(nftOwnedKey(owner, last));
+  deleteKey(nftOwnedIndexKey(equipmentId));
+  setCounter(nftOwnedCountKey(owner), last);
+}
+
+function isApprovedOrOwner(spender: Address, equip: Equipment): bool {
+  const owner = equip.owner.toString();
+  if (spender.toString() == owner) return true;
+  if (getString(nftApprovalKey(equip.equipmentId)) == spender.toString()) return true;
+  return getBool(nftOperatorKey(owner, spender.toString()));
+}
+
+// Hand an item to a new owner: unequip it, drop its approval and move it between enumeration lists
+function moveEquipment(equip: Equipment, to: Address): void {
+  const from = equip.owner.toString();
+  unequipFromCharacter(equip);
+  deleteKey(nftApprovalKey(equip.equipmentId));
+  removeFromOwnerEnumeration(from, equip.equipmentId);
+  addToOwnerEnumeration(to.toString(), equip.equipmentId);
+  equip.owner = to;
+  setBytes(equipmentKey(equip.equipmentId), equip.serialize());
+  generateEvent('Transfer:' + from + ':' + to.toString() + ':' + equip.equipmentId);
+}
+
+// Checked transfer shared by transferFrom and safeTransferFrom
+function transferEquipmentFrom(from: Address, to: Address, equipmentId: string): void {
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+  assert(equip.owner.toString() == from.toString(), 'from is not owner');
+  assert(to.toString().length > 0, 'invalid recipient');
+  assert(isApprovedOrOwner(Context.caller(), equip), 'not owner nor approved');
+  assertNotListed(equipmentId);
+  moveEquipment(equip, to);
+}
+
+export function name(_: StaticArray<u8>): StaticArray<u8> {
+  return stringToBytes(NFT_NAME);
+}
+
+export function symbol(_: StaticArray<u8>): StaticArray<u8> {
+  return stringToBytes(NFT_SYMBOL);
+}
+
+// Items in existence (minted minus burned by fusion/salvage)
+export function totalSupply(_: StaticArray<u8>): StaticArray<u8> {
+  return u64ToBytes(getCounter(EQUIPMENT_COUNT_KEY) - getCounter(EQUIPMENT_BURNED_KEY));
+}
+
+// Metadata URI for an item (base URI + equipmentId)
+export function tokenURI(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  return stringToBytes(getString(NFT_BASE_URI_KEY) + equipmentId);
+}
+
+export function ownerOf(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  return stringToBytes(Equipment.deserialize(getBytes(equipmentKey(equipmentId))).owner.toString());
+}
+
+export function balanceOf(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const owner = ar.nextString().unwrap();
+  return u64ToBytes(getCounter(nftOwnedCountKey(owner)));
+}
+
+// Args: owner, index (u64, 0-based)
+export function tokenOfOwnerByIndex(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const owner = ar.nextString().unwrap();
+  const index = ar.nextU64().unwrap();
+  assert(index < getCounter(nftOwnedCountKey(owner)), 'index out of range');
+  return stringToBytes(getString(nftOwnedKey(owner, index)));
+}
+
+// Approved address for an item, or an empty string
+export function getApproved(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  return stringToBytes(getString(nftApprovalKey(equipmentId)));
+}
+
+export function isApprovedForAll(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const owner = ar.nextString().unwrap();
+  const operator = ar.nextString().unwrap();
+  return boolToByte(getBool(nftOperatorKey(owner, operator)));
+}
+
+// Approve one address to transfer an item; an empty address clears the approval
+// Args: to, equipmentId
+export function approve(args: StaticArray<u8>): void {
+  whenNotPaused();
+  const ar = new Args(args);
+  const to = ar.nextString().unwrap();
+  const equipmentId = ar.nextString().unwrap();
+
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+  const owner = equip.owner.toString();
+  const caller = Context.caller().toString();
+  assert(caller == owner || getBool(nftOperatorKey(owner, caller)), 'not owner nor operator');
+  assert(to != owner, 'approval to current owner');
+
+  if (to.length == 0) deleteKey(nftApprovalKey(equipmentId));
+  else setString(nftApprovalKey(equipmentId), to);
+  generateEvent('Approval:' + owner + ':' + to + ':' + equipmentId);
+}
+
+// Args: operator, approved (bool)
+export function setApprovalForAll(args: StaticArray<u8>): void {
+  whenNotPaused();
+  const ar = new Args(args);
+  const operator = ar.nextString().unwrap();
+  const approved = ar.nextBool().unwrap();
+
+  const owner = Context.caller().toString();
+  assert(operator != owner, 'approve to caller');
+  if (approved) setBool(nftOperatorKey(owner, operator), true);
+  else deleteKey(nftOperatorKey(owner, operator));
+  generateEvent('ApprovalForAll:' + owner + ':' + operator + ':' + (approved ? 'true' : 'false'));
+}
+
+// Args: from, to, equipmentId
+export function transferFrom(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const from = new Address(ar.nextString().unwrap());
+  const to = new Address(ar.nextString().unwrap());
+  const equipmentId = ar.nextString().unwrap();
+
+  transferEquipmentFrom(from, to, equipmentId);
+  endNonReentrant();
+}
+
+// Like transferFrom, but a contract recipient (AS address) must acknowledge the item
+// by returning true from onMRC721Received(operator, from, equipmentId, data)
+// Args: from, to, equipmentId, data (bytes, optional)
+export function safeTransferFrom(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const from = new Address(ar.nextString().unwrap());
+  const to = new Address(ar.nextString().unwrap());
+  const equipmentId = ar.nextString().unwrap();
+  const dataArg = ar.nextBytes();
+  const data = dataArg.isErr() ? new StaticArray<u8>(0) : dataArg.unwrap();
+
+  transferEquipmentFrom(from, to, equipmentId);
+  if (to.toString().startsWith('AS')) {
+    const hookArgs = new Args()
+      .add(Context.caller().toString())
+      .add(from.toString())
+      .add(equipmentId)
+      .add(data);
+    const accepted = call(to, NFT_RECEIVED_HOOK, hookArgs, 0);
+    assert(accepted.length > 0 && byteToBool(accepted), 'receiver rejected equipment');
+  }
+  endNonReentrant();
+}
+
+// Set the metadata base URI used by tokenURI (admin)
+export function game_setNftBaseURI(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const baseUri = ar.nextString().unwrap();
+  setString(NFT_BASE_URI_KEY, baseUri);
+  generateEvent('NftBaseURISet:' + baseUri);
+}
+
+// ============================================================================
+// LOOT DROPS
+// ============================================================================
+
+function lootConfig(key: string, fallback: u64): u64 {
+  return hasKey(key) ? getCounter(key) : fallback;
+}
+
+// Relative drop weights per rarity (default 70 / 22 / 7 / 1 %)
+function lootRarityWeight(rarity: u8): u64 {
+  if (hasKey(lootWeightKey(rarity))) return getCounter(lootWeightKey(rarity));
+  return rarity == RARITY_COMMON ? 7000 : (rarity == RARITY_RARE ? 2200 : (rarity == RARITY_EPIC ? 700 : 100));
+}
+
+// Band configured by the admin, or +/- LOOT_BAND_VARIANCE_PCT around the fixed stats of the rarity
+function loadLootBand(type: u8, rarity: u8): LootBand {
+  if (hasKey(lootBandKey(type, rarity))) return LootBand.deserialize(getBytes(lootBandKey(type, rarity)));
+
+  const base = new Equipment();
+  base.type = type;
+  base.rarity = rarity;
+  applyRarityStats(base);
+
+  const low: u64 = 100 - LOOT_BAND_VARIANCE_PCT;
+  const high: u64 = 100 + LOOT_BAND_VARIANCE_PCT;
+  const band = new LootBand();
+  band.hpMin = base.hpBonus * low / 100;
+  band.hpMax = base.hpBonus * high / 100;
+  band.damageMinLow = u32(u64(base.damageMinBonus) * low / 100);
+  band.damageMinHigh = u32(u64(base.damageMinBonus) * high / 100);
+  band.damageMaxLow = u32(u64(base.damageMaxBonus) * low / 100);
+  band.damageMaxHigh = u32(u64(base.damageMaxBonus) * high / 100);
+  band.critMin = u32(u64(base.critBonus) * low / 100);
+  band.critMax = u32(u64(base.critBonus) * high / 100);
+  band.dodgeMin = u32(u64(base.dodgeBonus) * low / 100);
+  band.dodgeMax = u32(u64(base.dodgeBonus) * high / 100);
+  band.defenseMin = u32(u64(base.defenseBonus) * low / 100);
+  band.defenseMax = u32(u64(base.defenseBonus) * high / 100);
+  band.durability = base.durability;
+  return band;
+}
+
+// Uniform roll in [min, max]
+function rollInRange(seed: u64, salt: u64, min: u64, max: u64): u64 {
+  if (max <= min) return min;
+  return min + seededRandom(seed, salt) % (max - min + 1);
+}
+
+function rollLootRarity(seed: u64, salt: u64): u8 {
+  let total: u64 = 0;
+  for (let r: u8 = RARITY_COMMON; r <= RARITY_LEGENDARY; r++) total += lootRarityWeight(r);
+  if (total == 0) return RARITY_COMMON;
+  let roll = seededRandom(seed, salt) % total;
+  for (let r: u8 = RARITY_COMMON; r < RARITY_LEGENDARY; r++) {
+    const weight = lootRarityWeight(r);
+    if (roll < weight) return r;
+    roll -= weight;
+  }
+  return RARITY_LEGENDARY;
+}
+
+/**
+ * Decide how a finalized battle's loot is rolled. Self-play and battles that ended
+ * before any turn resolved drop nothing: both sides' secrets are one player's, or the
+ * seed is still sha256(battleId), which the challenger picks. Oracle battles roll from
+ * a fresh value of their randomness source (returns true so the caller requests it);
+ * commit-reveal battles roll from the seed left by the last reveal.
+ */
+function scheduleLootDrops(battleId: string, battle: Battle): bool {
+  if (battle.player1Owner.toString() == battle.player2Owner.toString() || battle.turnNumber == 0) {
+    generateEvent('LootSkipped:' + battleId);
+    return false;
+  }
+  if (battle.randomnessSource.length > 0) return true;
+  rollLootDrops(battleId, battle, battle.randomSeed);
+  return false;
+}
+
+function rollLootDrops(battleId: string, battle: Battle, entropy: u64): void {
+  rollLootDrop(battleId, entropy, battle.player1Owner, 1, battle.winner == 1);
+  rollLootDrop(battleId, entropy, battle.player2Owner, 2, battle.winner == 2);
+}
+
+/**
+ * Roll a drop for one side of a finalized battle and mint it to the character's owner.
+ * `side` (1 or 2) keeps the two players' rolls apart and makes the item id unique per battle.
+ */
+function rollLootDrop(battleId: string, entropy: u64, owner: Address, side: u8, won: bool): void {
+  const chance = won
+    ? lootConfig(LOOT_WINNER_CHANCE_KEY, DEFAULT_LOOT_WINNER_CHANCE_BPS)
+    : lootConfig(LOOT_LOSER_CHANCE_KEY, DEFAULT_LOOT_LOSER_CHANCE_BPS);
+  if (chance == 0) return;
+
+  const mix = new Args();
+  mix.add(entropy);
+  mix.add(battleId);
+  mix.add(side);
+  const seed = seedFromBytes(sha256(mix.serialize()));
+  const salt = LOOT_SALT;
+  if (seededRandom(seed, salt) % BASIS_POINTS >= chance) return;
+
+  const equipmentId = 'loot-' + battleId + '-' + side.toString();
+  if (hasKey(equipmentKey(equipmentId))) return;
+
+  const equip = new Equipment();
+  equip.equipmentId = equipmentId;
+  equip.owner = owner;
+  equip.type = u8(seededRandom(seed, salt + 1) % 3);
+  equip.rarity = rollLootRarity(seed, salt + 2);
+  equip.createdAt = Context.timestamp();
+
+  const band = loadLootBand(equip.type, equip.rarity);
+  equip.hpBonus = rollInRange(seed, salt + 3, band.hpMin, band.hpMax);
+  equip.damageMinBonus = u16(rollInRange(seed, salt + 4, band.damageMinLow, band.damageMinHigh));
+  const damageMax = u16(rollInRange(seed, salt + 5, band.damageMaxLow, band.damageMaxHigh));
+  equip.damageMaxBonus = damageMax < equip.damageMinBonus ? equip.damageMinBonus : damageMax;
+  equip.critBonus = u16(rollInRange(seed, salt + 6, band.critMin, band.critMax));
+  equip.dodgeBonus = u16(rollInRange(seed, salt + 7, band.dodgeMin, band.dodgeMax));
+  equip.defenseBonus = u16(rollInRange(seed, salt + 8, band.defenseMin, band.defenseMax));
+  equip.durability = u16(band.durability);
+  equip.currentDurability = equip.durability;
+
+  mintEquipment(equip);
+  generateEvent(
+    'LootDropped:' + battleId + ':' + owner.toString() + ':' + equipmentId +
+    ':type=' + equip.type.toString() + ':rarity=' + equip.rarity.toString(),
+  );
+}
+
+// Drop chances in basis points (admin)
+export function game_setLootDropChance(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const winnerBps = ar.nextU64().unwrap();
+  const loserBps = ar.nextU64().unwrap();
+  assert(winnerBps <= BASIS_POINTS && loserBps <= BASIS_POINTS, 'chance too high');
+  setCounter(LOOT_WINNER_CHANCE_KEY, winnerBps);
+  setCounter(LOOT_LOSER_CHANCE_KEY, loserBps);
+  generateEvent('LootDropChanceSet:winner=' + winnerBps.toString() + ':loser=' + loserBps.toString());
+}
+
+// Relative rarity weights: common, rare, epic, legendary (admin)
+export function game_setLootRarityWeights(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  let total: u64 = 0;
+  for (let r: u8 = RARITY_COMMON; r <= RARITY_LEGENDARY; r++) {
+    const weight = ar.nextU64().unwrap();
+    setCounter(lootWeightKey(r), weight);
+    total += weight;
+  }
+  assert(total > 0, 'weights sum to zero');
+  generateEvent('LootRarityWeightsSet:total=' + total.toString());
+}
+
+// Stat ranges for one type/rarity (admin)
+// Args: type, rarity, then the LootBand fields in serialization order
+export function game_setLootBand(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const type = ar.nextU8().unwrap();
+  const rarity = ar.nextU8().unwrap();
+  assert(type <= 2, 'invalid equipment type');
+  assert(rarity <= RARITY_LEGENDARY, 'invalid rarity');
+
+  const band = new LootBand();
+  band.hpMin = ar.nextU64().unwrap();
+  band.hpMax = ar.nextU64().unwrap();
+  band.damageMinLow = ar.nextU32().unwrap();
+  band.damageMinHigh = ar.nextU32().unwrap();
+  band.damageMaxLow = ar.nextU32().unwrap();
+  band.damageMaxHigh = ar.nextU32().unwrap();
+  band.critMin = ar.nextU32().unwrap();
+  band.critMax = ar.nextU32().unwrap();
+  band.dodgeMin = ar.nextU32().unwrap();
+  band.dodgeMax = ar.nextU32().unwrap();
+  band.defenseMin = ar.nextU32().unwrap();
+  band.defenseMax = ar.nextU32().unwrap();
+  band.durability = ar.nextU32().unwrap();
+
+  assert(band.hpMin <= band.hpMax, 'invalid hp range');
+  assert(band.damageMinLow <= band.damageMinHigh && band.damageMaxLow <= band.damageMaxHigh, 'invalid damage range');
+  assert(band.critMin <= band.critMax && band.dodgeMin <= band.dodgeMax, 'invalid crit/dodge range');
+  assert(band.defenseMin <= band.defenseMax, 'invalid defense range');
+  assert(band.durability > 0 && band.durability <= 65535, 'invalid durability');
+  assert(band.damageMaxHigh <= 65535 && band.critMax <= 65535 && band.dodgeMax <= 65535 && band.defenseMax <= 65535, 'stat too high');
+
+  setBytes(lootBandKey(type, rarity), band.serialize());
+  generateEvent('LootBandSet:type=' + type.toString() + ':rarity=' + rarity.toString());
+}
+
+// Drop a custom band so the type/rarity rolls around its default stats again (admin)
+export function game_resetLootBand(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const type = ar.nextU8().unwrap();
+  const rarity = ar.nextU8().unwrap();
+  deleteKey(lootBandKey(type, rarity));
+  generateEvent('LootBandReset:type=' + type.toString() + ':rarity=' + rarity.toString());
+}
+
+// Returns: winnerChanceBps, loserChanceBps, then the four rarity weights
+export function game_getLootConfig(_: StaticArray<u8>): StaticArray<u8> {
+  const out = new Args()
+    .add(lootConfig(LOOT_WINNER_CHANCE_KEY, DEFAULT_LOOT_WINNER_CHANCE_BPS))
+    .add(lootConfig(LOOT_LOSER_CHANCE_KEY, DEFAULT_LOOT_LOSER_CHANCE_BPS));
+  for (let r: u8 = RARITY_COMMON; r <= RARITY_LEGENDARY; r++) out.add(lootRarityWeight(r));
+  return out.serialize();
+}
+
+// Effective LootBand for a type/rarity (custom or default)
+export function game_getLootBand(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const type = ar.nextU8().unwrap();
+  const rarity = ar.nextU8().unwrap();
+  assert(type <= 2 && rarity <= RARITY_LEGENDARY, 'invalid type or rarity');
+  return loadLootBand(type, rarity).serialize();
+}
+
+// ============================================================================
+// CRAFTING & FUSION
+// ============================================================================
+
+function materialsBalance(addr: Address): u64 {
+  return getCounter(materialsKey(addr));
+}
+
+function setMaterialsBalance(addr: Address, amount: u64): void {
+  setCounter(materialsKey(addr), amount);
+  generateEvent('MaterialsChanged:' + addr.toString() + ':balance=' + amount.toString());
+}
+
+// Fresh id for an item minted by the game itself, derived from EQUIPMENT_COUNT_KEY
+function nextGeneratedEquipmentId(prefix: string): string {
+  let n = getCounter(EQUIPMENT_COUNT_KEY) + 1;
+  while (hasKey(equipmentKey(prefix + n.toString()))) n++;
+  return prefix + n.toString();
+}
+
+// Load an item the caller may destroy: owned by them and not worn by a character
+function loadBurnableEquipment(equipmentId: string, owner: Address): Equipment {
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+  assert(equip.owner.toString() == owner.toString(), 'not equipment owner');
+  assert(equip.equippedBy.length == 0, 'equipment equipped');
+  assertNotListed(equipmentId);
+  return equip;
+}
+
+// Remove an item from storage and from its owner's enumeration
+function burnEquipment(equip: Equipment): void {
+  const owner = equip.owner.toString();
+  deleteKey(nftApprovalKey(equip.equipmentId));
+  removeFromOwnerEnumeration(owner, equip.equipmentId);
+  deleteKey(equipmentKey(equip.equipmentId));
+  incrementCounter(EQUIPMENT_BURNED_KEY);
+  generateEvent('Transfer:' + owner + '::' + equip.equipmentId);
+}
+
+// Mint a fixed-stat item generated by fusion or crafting
+function mintGeneratedEquipment(prefix: string, owner: Address, type: u8, rarity: u8): Equipment {
+  const equip = new Equipment();
+  equip.equipmentId = nextGeneratedEquipmentId(prefix);
+  equip.owner = owner;
+  equip.type = type;
+  equip.rarity = rarity;
+  equip.createdAt = Context.timestamp();
+  applyRarityStats(equip);
+  mintEquipment(equip);
+  return equip;
+}
+
+// Burn FUSION_INPUT_COUNT items of one rarity into one item of the next rarity.
+// The new item takes the type of the first input.
+// Args: equipmentIds (string[])
+export function game_fuseEquipment(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const ids = ar.nextStringArray().unwrap();
+  assert(ids.length == FUSION_INPUT_COUNT, 'wrong number of items');
+
+  const caller = Context.caller();
+  const inputs: Equipment[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = 0; j < i; j++) assert(ids[j] != ids[i], 'duplicate item');
+    const equip = loadBurnableEquipment(ids[i], caller);
+    if (i > 0) assert(equip.rarity == inputs[0].rarity, 'rarity mismatch');
+    inputs.push(equip);
+  }
+  assert(inputs[0].rarity < RARITY_LEGENDARY, 'already legendary');
+
+  for (let i = 0; i < inputs.length; i++) burnEquipment(inputs[i]);
+  const fused = mintGeneratedEquipment('fused-', caller, inputs[0].type, inputs[0].rarity + 1);
+  endNonReentrant();
+  generateEvent(
+    'EquipmentFused:' + fused.equipmentId + ':owner=' + caller.toString() +
+    ':rarity=' + fused.rarity.toString() + ':inputs=' + ids.join(','),
+  );
+}
+
+// Burn an item for crafting materials (SALVAGE_YIELD by rarity)
+// Args: equipmentId
+export function game_salvageEquipment(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+
+  const caller = Context.caller();
+  const equip = loadBurnableEquipment(equipmentId, caller);
+  const yieldAmount = SALVAGE_YIELD[equip.rarity];
+
+  burnEquipment(equip);
+  setMaterialsBalance(caller, materialsBalance(caller) + yieldAmount);
+  endNonReentrant();
+  generateEvent('EquipmentSalvaged:' + equipmentId + ':owner=' + caller.toString() + ':materials=' + yieldAmount.toString());
+}
+
+// Spend materials on a new item of the chosen type and rarity (CRAFT_COST by rarity)
+// Args: type (u8), rarity (u8)
+export function game_craftEquipment(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const type = ar.nextU8().unwrap();
+  const rarity = ar.nextU8().unwrap();
+  assert(type <= 2, 'invalid equipment type');
+  assert(rarity <= RARITY_LEGENDARY, 'invalid rarity');
+
+  const caller = Context.caller();
+  const cost = CRAFT_COST[rarity];
+  const balance = materialsBalance(caller);
+  assert(balance >= cost, 'insufficient materials');
+
+  setMaterialsBalance(caller, balance - cost);
+  const crafted = mintGeneratedEquipment('crafted-', caller, type, rarity);
+  endNonReentrant();
+  generateEvent(
+    'EquipmentCrafted:' + crafted.equipmentId + ':owner=' + caller.toString() +
+    ':type=' + type.toString() + ':rarity=' + rarity.toString() + ':cost=' + cost.toString(),
+  );
+}
+
+export function game_getMaterials(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const addr = new Address(ar.nextString().unwrap());
+  return u64ToBytes(materialsBalance(addr));
+}
+
+// Returns: fusion input count, then salvage yield and craft cost for each rarity
+export function game_getCraftingRules(_: StaticArray<u8>): StaticArray<u8> {
+  const out = new Args().add(FUSION_INPUT_COUNT as u32);
+  for (let r: u8 = RARITY_COMMON; r <= RARITY_LEGENDARY; r++) {
+    out.add(SALVAGE_YIELD[r]);
+    out.add(CRAFT_COST[r]);
+  }
+  return out.serialize();
+}
+
+// ============================================================================
+// MARKETPLACE
+// ============================================================================
+
+function marketFeeBps(): u64 {
+  return hasKey(MARKET_FEE_KEY) ? getCounter(MARKET_FEE_KEY) : DEFAULT_MARKET_FEE_BPS;
+}
+
+function assertNotListed(equipmentId: string): void {
+  assert(!hasKey(marketLockKey(equipmentId)), 'equipment listed');
+}
+
+function loadActiveListing(listingId: string): Listing {
+  assert(hasKey(listingKey(listingId)), 'listing not found');
+  const listing = Listing.deserialize(getBytes(listingKey(listingId)));
+  assert(listing.status == LISTING_STATUS_ACTIVE, 'listing not active');
+  return listing;
+}
+
+// Lock an item for a new listing; a worn item is taken off first
+function openListing(kind: u8, equipmentId: string, token: string, price: u64, endTime: u64): Listing {
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+  const caller = Context.caller();
+  assert(caller.toString() == equip.owner.toString(), 'not equipment owner');
+  assertNotListed(equipmentId);
+  assert(token.length > 0, 'token required');
+  assert(price > 0, 'price must be positive');
+
+  if (equip.equippedBy.length > 0) {
+    unequipFromCharacter(equip);
+    setBytes(equipmentKey(equipmentId), equip.serialize());
+  }
+
+  incrementCounter(MARKET_LISTING_COUNT_KEY);
+  const listing = new Listing();
+  listing.listingId = getCounter(MARKET_LISTING_COUNT_KEY).toString();
+  listing.seller = caller;
+  listing.equipmentId = equipmentId;
+  listing.kind = kind;
+  listing.token = token;
+  listing.price = price;
+  listing.endTime = endTime;
+  listing.status = LISTING_STATUS_ACTIVE;
+  listing.createdAt = Context.timestamp();
+
+  setBytes(listingKey(listing.listingId), listing.serialize());
+  setString(marketLockKey(equipmentId), listing.listingId);
+  return listing;
+}
+
+// Release the item lock; caller persists the listing
+function closeListing(listing: Listing, status: u8): void {
+  listing.status = status;
+  deleteKey(marketLockKey(listing.equipmentId));
+}
+
+// Pay a sale held by the contract to the seller, minus the market fee.
+// Fees are kept per token: sellers pick the token, so they can't share the treasury counter.
+function payoutSale(tokenAddr: string, seller: Address, amount: u64): u64 {
+  const fee = amount * marketFeeBps() / BASIS_POINTS;
+  if (fee > 0) {
+    setCounter(marketFeesKey(tokenAddr), getCounter(marketFeesKey(tokenAddr)) + fee);
+  }
+  const token = new IERC20(new Address(tokenAddr));
+  token.transfer(seller, amount - fee);
+  return fee;
+}
+
+// Hand the item to the buyer and pay the seller; caller persists the listing
+function completeSale(listing: Listing, buyer: Address, amount: u64): void {
+  closeListing(listing, LISTING_STATUS_SOLD);
+  listing.buyer = buyer.toString();
+  const equip = Equipment.deserialize(getBytes(equipmentKey(listing.equipmentId)));
+  moveEquipment(equip, buyer);
+  const fee = payoutSale(listing.token, listing.seller, amount);
+  generateEvent(
+    'ListingSold:' + listing.listingId + ':' + listing.equipmentId + ':buyer=' + buyer.toString() +
+    ':price=' + amount.toString() + ':fee=' + fee.toString(),
+  );
+}
+
+// Args: equipmentId, token, price
+export function market_listFixedPrice(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  const token = ar.nextString().unwrap();
+  const price = ar.nextU64().unwrap();
+
+  const listing = openListing(LISTING_FIXED_PRICE, equipmentId, token, price, 0);
+  endNonReentrant();
+  generateEvent('ListingCreated:' + listing.listingId + ':' + equipmentId + ':price=' + price.toString());
+}
+
+// Args: equipmentId, token, reservePrice, endTime (ms)
+export function market_listAuction(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  const token = ar.nextString().unwrap();
+  const reserve = ar.nextU64().unwrap();
+  const endTime = ar.nextU64().unwrap();
+
+  const now = Context.timestamp();
+  assert(endTime >= now + MARKET_MIN_AUCTION_DURATION, 'auction too short');
+  assert(endTime <= now + MARKET_MAX_AUCTION_DURATION, 'auction too long');
+
+  const listing = openListing(LISTING_AUCTION, equipmentId, token, reserve, endTime);
+  endNonReentrant();
+  generateEvent(
+    'AuctionCreated:' + listing.listingId + ':' + equipmentId + ':reserve=' + reserve.toString() +
+    ':end=' + endTime.toString(),
+  );
+}
+
+// Buy a fixed-price listing outright
+export function market_buy(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const listingId = ar.nextString().unwrap();
+
+  const listing = loadActiveListing(listingId);
+  assert(listing.kind == LISTING_FIXED_PRICE, 'not a fixed-price listing');
+  const buyer = Context.caller();
+  assert(buyer.toString() != listing.seller.toString(), 'seller cannot buy');
+
+  const token = new IERC20(new Address(listing.token));
+  token.transferFrom(buyer, Context.callee(), listing.price);
+  completeSale(listing, buyer, listing.price);
+  setBytes(listingKey(listingId), listing.serialize());
+  endNonReentrant();
+}
+
+// Escrow a bid; the previous highest bidder is refunded
+// Args: listingId, amount
+export function market_bid(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const listingId = ar.nextString().unwrap();
+  const amount = ar.nextU64().unwrap();
+
+  const listing = loadActiveListing(listingId);
+  assert(listing.kind == LISTING_AUCTION, 'not an auction');
+  assert(Context.timestamp() < listing.endTime, 'auction ended');
+  const bidder = Context.caller();
+  assert(bidder.toString() != listing.seller.toString(), 'seller cannot bid');
+  assert(amount >= listing.price, 'below reserve');
+  if (listing.highestBid > 0) {
+    const minBid = listing.highestBid + listing.highestBid * MARKET_MIN_BID_INCREMENT_BPS / BASIS_POINTS;
+    assert(amount >= minBid && amount > listing.highestBid, 'bid too low');
+  }
+
+  const token = new IERC20(new Address(listing.token));
+  token.transferFrom(bidder, Context.callee(), amount);
+  const previousBidder = listing.highestBidder;
+  const previousBid = listing.highestBid;
+  listing.highestBidder = bidder.toString();
+  listing.highestBid = amount;
+  setBytes(listingKey(listingId), listing.serialize());
+  if (previousBidder.length > 0) {
+    token.transfer(new Address(previousBidder), previousBid);
+  }
+  endNonReentrant();
+  generateEvent('BidPlaced:' + listingId + ':bidder=' + bidder.toString() + ':amount=' + amount.toString());
+}
+
+// Close an auction after its end time (anyone): sell to the highest bid or unlock the item
+export function market_settleAuction(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const listingId = ar.nextString().unwrap();
+
+  const listing = loadActiveListing(listingId);
+  assert(listing.kind == LISTING_AUCTION, 'not an auction');
+  assert(Context.timestamp() >= listing.endTime, 'auction still running');
+
+  if (listing.highestBidder.length > 0) {
+    completeSale(listing, new Address(listing.highestBidder), listing.highestBid);
+  } else {
+    closeListing(listing, LISTING_STATUS_CANCELLED);
+    generateEvent('AuctionUnsold:' + listingId + ':' + listing.equipmentId);
+  }
+  setBytes(listingKey(listingId), listing.serialize());
+  endNonReentrant();
+}
+
+// Withdraw a listing (seller); auctions can only be cancelled before the first bid
+export function market_cancelListing(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const listingId = ar.nextString().unwrap();
+
+  const listing = loadActiveListing(listingId);
+  assert(Context.caller().toString() == listing.seller.toString(), 'not seller');
+  assert(listing.highestBidder.length == 0, 'auction has bids');
+
+  closeListing(listing, LISTING_STATUS_CANCELLED);
+  setBytes(listingKey(listingId), listing.serialize());
+  endNonReentrant();
+  generateEvent('ListingCancelled:' + listingId + ':' + listing.equipmentId);
+}
+
+// Escrow an offer on an item, replacing (and refunding) the caller's previous offer on it
+// Args: equipmentId, token, amount, expiresAt (ms)
+export function market_makeOffer(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  const tokenAddr = ar.nextString().unwrap();
+  const amount = ar.nextU64().unwrap();
+  const expiresAt = ar.nextU64().unwrap();
+
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+  const buyer = Context.caller();
+  assert(buyer.toString() != equip.owner.toString(), 'already owner');
+  assert(tokenAddr.length > 0, 'token required');
+  assert(amount > 0, 'amount must be positive');
+  assert(expiresAt > Context.timestamp(), 'offer already expired');
+
+  const key = offerKey(equipmentId, buyer.toString());
+  const previous: Offer | null = hasKey(key) ? Offer.deserialize(getBytes(key)) : null;
+
+  const token = new IERC20(new Address(tokenAddr));
+  token.transferFrom(buyer, Context.callee(), amount);
+
+  const offer = new Offer();
+  offer.equipmentId = equipmentId;
+  offer.buyer = buyer;
+  offer.token = tokenAddr;
+  offer.amount = amount;
+  offer.expiresAt = expiresAt;
+  offer.createdAt = Context.timestamp();
+  setBytes(key, offer.serialize());
+
+  if (previous != null) {
+    new IERC20(new Address(previous.token)).transfer(buyer, previous.amount);
+  }
+  endNonReentrant();
+  generateEvent('OfferMade:' + equipmentId + ':buyer=' + buyer.toString() + ':amount=' + amount.toString());
+}
+
+// Withdraw an offer and its escrow (buyer, at any time)
+export function market_cancelOffer(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+
+  const buyer = Context.caller();
+  const key = offerKey(equipmentId, buyer.toString());
+  assert(hasKey(key), 'offer not found');
+  const offer = Offer.deserialize(getBytes(key));
+  deleteKey(key);
+
+  new IERC20(new Address(offer.token)).transfer(buyer, offer.amount);
+  endNonReentrant();
+  generateEvent('OfferCancelled:' + equipmentId + ':buyer=' + buyer.toString());
+}
+
+// Sell an unlisted item to an open offer (owner)
+// Args: equipmentId, buyer
+export function market_acceptOffer(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  const buyerAddr = ar.nextString().unwrap();
+
+  assert(hasKey(equipmentKey(equipmentId)), 'equipment not found');
+  const equip = Equipment.deserialize(getBytes(equipmentKey(equipmentId)));
+  const seller = Context.caller();
+  assert(seller.toString() == equip.owner.toString(), 'not equipment owner');
+  assertNotListed(equipmentId);
+
+  const key = offerKey(equipmentId, buyerAddr);
+  assert(hasKey(key), 'offer not found');
+  const offer = Offer.deserialize(getBytes(key));
+  assert(Context.timestamp() < offer.expiresAt, 'offer expired');
+  deleteKey(key);
+
+  moveEquipment(equip, offer.buyer);
+  const fee = payoutSale(offer.token, seller, offer.amount);
+  endNonReentrant();
+  generateEvent(
+    'OfferAccepted:' + equipmentId + ':buyer=' + buyerAddr + ':price=' + offer.amount.toString() +
+    ':fee=' + fee.toString(),
+  );
+}
+
+// Market fee in basis points taken from every sale (admin)
+export function market_setFee(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const feeBps = ar.nextU64().unwrap();
+  assert(feeBps <= MAX_MARKET_FEE_BPS, 'fee too high');
+  setCounter(MARKET_FEE_KEY, feeBps);
+  generateEvent('MarketFeeSet:' + feeBps.toString());
+}
+
+export function market_getFee(_: StaticArray<u8>): StaticArray<u8> {
+  return u64ToBytes(marketFeeBps());
+}
+
+// Withdraw collected market fees in one token (admin). Args: token, amount, recipient
+export function market_withdrawFees(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const tokenAddr = ar.nextString().unwrap();
+  const amount = ar.nextU64().unwrap();
+  const recipient = new Address(ar.nextString().unwrap());
+
+  const balance = getCounter(marketFeesKey(tokenAddr));
+  assert(balance >= amount, 'insufficient market fees');
+  setCounter(marketFeesKey(tokenAddr), balance - amount);
+
+  const token = new IERC20(new Address(tokenAddr));
+  token.transfer(recipient, amount);
+
+  endNonReentrant();
+  generateEvent('MarketFeesWithdrawn:' + tokenAddr + ':' + amount.toString() + ':to=' + recipient.toString());
+}
+
+// Market fees held in one token. Args: token
+export function market_getFees(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const tokenAddr = ar.nextString().unwrap();
+  return u64ToBytes(getCounter(marketFeesKey(tokenAddr)));
+}
+
+export function market_readListing(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const listingId = ar.nextString().unwrap();
+  if (!hasKey(listingKey(listingId))) return stringToBytes('null');
+  return getBytes(listingKey(listingId));
+}
+
+// Active listing id locking an item, or '' when it is free
+export function market_getListingForEquipment(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  return stringToBytes(getString(marketLockKey(equipmentId)));
+}
+
+// Args: equipmentId, buyer
+export function market_readOffer(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const equipmentId = ar.nextString().unwrap();
+  const buyer = ar.nextString().unwrap();
+  if (!hasKey(offerKey(equipmentId, buyer))) return stringToBytes('null');
+  return getBytes(offerKey(equipmentId, buyer));
+}
+
+// ============================================================================
+// SKILL SYSTEM
+// ============================================================================
+
+// Learn a new skill (costs XP or tokens)
+export function game_learnSkill(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const characterId = ar.nextString().unwrap();
+  const skillId = ar.nextU8().unwrap();
+
+  const def = loadSkillDefinition(skillId);
+  if (def == null) {
+    assert(false, 'invalid skill');
+    return;
+  }
+  assert(def.enabled, 'invalid skill');
+  assert(hasKey(characterKey(characterId)), 'character not found');
+
+  const charData = getBytes(characterKey(characterId));
+  const char = Character.deserialize(charData);
+
+  const caller = Context.caller();
+  assert(caller.toString() == char.owner.toString(), 'not character owner');
+
+  // Check if skill already learned
+  const learnedArray = char.learnedSkills.length > 0 ? char.learnedSkills.split(',') : [];
+  for (let i = 0; i < learnedArray.length; i++) {
+    if (parseInt(learnedArray[i]) == skillId) {
+      assert(false, 'skill already learned');
+    }
+  }
+
+  assert(char.level >= def.requiredLevel, 'level too low for this skill');
+  assert(skillAllowedForClass(def, char.characterClass), 'skill not available to this class');
+
+  // Add to learned skills
+  if (char.learnedSkills.length > 0) {
+    char.learnedSkills = char.learnedSkills + ',' + skillId.toString();
+  } else {
+    char.learnedSkills = skillId.toString();
+  }
+
+  setBytes(characterKey(characterId), char.serialize());
+  recordPlayerStatMax(char.owner, STAT_SKILLS_LEARNED, (learnedArray.length + 1) as u64);
+  evaluateAchievements(char.owner);
+  endNonReentrant();
+  generateEvent('SkillLearned:' + characterId + ':' + skillId.toString());
+}
+
+// Equip a learned skill to a slot
+export function game_equipSkill(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const characterId = ar.nextString().unwrap();
+  const skillId = ar.nextU8().unwrap();
+  const slot = ar.nextU8().unwrap(); // 1, 2, or 3
+
+  assert(slot >= 1 && slot <= 3, 'invalid slot');
+  assert(hasKey(characterKey(characterId)), 'character not found');
+
+  const charData = getBytes(characterKey(characterId));
+  const char = Character.deserialize(charData);
+
+  const caller = Context.caller();
+  assert(caller.toString() == char.owner.toString(), 'not character owner');
+
+  // Check if skill is learned (or allow SKILL_NONE to unequip)
+  if (skillId != SKILL_NONE) {
+    const learnedArray = char.learnedSkills.length > 0 ? char.learnedSkills.split(',') : [];
+    let found = false;
+    for (let i = 0; i < learnedArray.length; i++) {
+      if (parseInt(learnedArray[i]) == skillId) {
+        found = true;
+        break;
+      }
+    }
+    assert(found, 'skill not learned');
+  }
+
+  // Equip to slot
+  if (slot == 1) {
+    char.skill1 = skillId;
+  } else if (slot == 2) {
+    char.skill2 = skillId;
+  } else {
+    char.skill3 = skillId;
+  }
+
+  setBytes(characterKey(characterId), char.serialize());
+  endNonReentrant();
+  generateEvent('SkillEquipped:' + characterId + ':slot' + slot.toString() + ':' + skillId.toString());
+}
+
+// ============================================================================
+// SKILL REGISTRY
+// ============================================================================
+
+function skillDef(
+  skillId: u8, name: string, cooldown: u8, energyCost: u8, requiredLevel: u16,
+  damageMultiplier: u16, appliedStatus: u8, statusDuration: u8, target: u8,
+): SkillDefinition {
+  const def = new SkillDefinition();
+  def.skillId = skillId;
+  def.name = name;
+  def.cooldown = cooldown;
+  def.energyCost = energyCost;
+  def.requiredLevel = requiredLevel;
+  def.damageMultiplier = damageMultiplier;
+  def.appliedStatus = appliedStatus;
+  def.statusDuration = statusDuration;
+  def.target = target;
+  return def;
+}
+
+// Launch set of skills, used until the admin writes an override to the registry
+function builtinSkillDefinition(skillId: u8): SkillDefinition | null {
+  switch (skillId) {
+    case SKILL_POWER_STRIKE:
+      return skillDef(skillId, 'Power Strike', 3, 30, 1, 150, STATUS_NONE, 0, SKILL_TARGET_ENEMY);
+    case SKILL_HEAL: {
+      const def = skillDef(skillId, 'Heal', 4, 40, 1, 100, STATUS_NONE, 0, SKILL_TARGET_SELF);
+      def.healPct = 30;
+      return def;
+    }
+    case SKILL_POISON_STRIKE:
+      return skillDef(skillId, 'Poison Strike', 2, 25, 1, 100, STATUS_POISON, 3, SKILL_TARGET_ENEMY);
+    case SKILL_STUN_STRIKE:
+      return skillDef(skillId, 'Stun Strike', 5, 50, 5, 100, STATUS_STUN, 1, SKILL_TARGET_ENEMY);
+    case SKILL_SHIELD_WALL:
+      return skillDef(skillId, 'Shield Wall', 3, 30, 5, 100, STATUS_SHIELD, 2, SKILL_TARGET_SELF);
+    case SKILL_RAGE_MODE:
+      return skillDef(skillId, 'Rage Mode', 4, 40, 5, 100, STATUS_RAGE, 2, SKILL_TARGET_SELF);
+    case SKILL_CRITICAL_EYE:
+      return skillDef(skillId, 'Critical Eye', 6, 60, 10, 100, STATUS_CRIT_READY, 1, SKILL_TARGET_SELF);
+    case SKILL_DODGE_MASTER: {
+      // Lasts through the opponent's next turn
+      const def = skillDef(skillId, 'Dodge Master', 5, 50, 10, 100, STATUS_EVASION, 2, SKILL_TARGET_SELF);
+      def.dodgeBonus = 50;
+      return def;
+    }
+    case SKILL_BURN_AURA:
+      return skillDef(skillId, 'Burn Aura', 3, 35, 10, 100, STATUS_BURN, 3, SKILL_TARGET_ENEMY);
+    case SKILL_COMBO_BREAKER: {
+      const def = skillDef(skillId, 'Combo Breaker', 4, 45, 10, 120, STATUS_NONE, 0, SKILL_TARGET_ENEMY);
+      def.flags = SKILL_FLAG_RESET_ENEMY_COMBO;
+      return def;
+    }
+    default:
+      return null;
+  }
+}
+
+// Registry entry, else the built-in default, else null
+function loadSkillDefinition(skillId: u8): SkillDefinition | null {
+  if (hasKey(skillDefinitionKey(skillId))) return SkillDefinition.deserialize(getBytes(skillDefinitionKey(skillId)));
+  return builtinSkillDefinition(skillId);
+}
+
+function skillAllowedForClass(def: SkillDefinition, characterClass: u8): bool {
+  return def.classMask == 0 || (def.classMask & (1 << characterClass)) != 0;
+}
+
+// Fields shared by create and update, in serialization order after skillId
+function readSkillDefinitionArgs(ar: Args, skillId: u8): SkillDefinition {
+  const def = new SkillDefinition();
+  def.skillId = skillId;
+  def.name = ar.nextString().unwrap();
+  def.cooldown = ar.nextU8().unwrap();
+  def.energyCost = ar.nextU8().unwrap();
+  def.requiredLevel = ar.nextU32().unwrap() as u16;
+  def.classMask = ar.nextU8().unwrap();
+  def.damageMultiplier = ar.nextU32().unwrap() as u16;
+  def.healPct = ar.nextU8().unwrap();
+  def.appliedStatus = ar.nextU8().unwrap();
+  def.statusDuration = ar.nextU8().unwrap();
+  def.target = ar.nextU8().unwrap();
+  def.flags = ar.nextU8().unwrap();
+  def.dodgeBonus = ar.nextU32().unwrap() as u16;
+
+  assert(def.name.length > 0, 'name required');
+  assert(def.energyCost <= MAX_ENERGY, 'energy cost too high');
+  assert(def.requiredLevel >= 1 && def.requiredLevel <= MAX_CHARACTER_LEVEL, 'invalid required level');
+  assert(def.damageMultiplier <= MAX_SKILL_DAMAGE_MULTIPLIER, 'damage multiplier too high');
+  assert(def.healPct <= 100, 'invalid heal percent');
+  assert(def.dodgeBonus <= 100, 'invalid dodge bonus');
+  assert(def.target == SKILL_TARGET_SELF || def.target == SKILL_TARGET_ENEMY, 'invalid target');
+  assert(def.appliedStatus == STATUS_NONE || def.statusDuration > 0, 'status needs a duration');
+  return def;
+}
+
+// Persist a new version of a definition and keep an immutable copy of it
+function storeSkillDefinition(def: SkillDefinition, previousVersion: u32): void {
+  def.version = previousVersion + 1;
+  def.updatedAt = Context.timestamp();
+  const data = def.serialize();
+  setBytes(skillDefinitionKey(def.skillId), data);
+  setBytes(skillVersionKey(def.skillId, def.version), data);
+}
+
+// Register a new skill id (admin)
+// Args: skillId, then name, cooldown, energyCost, requiredLevel (u32), classMask, damageMultiplier (u32),
+// healPct, appliedStatus, statusDuration, target, flags, dodgeBonus (u32)
+export function game_createSkill(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const skillId = ar.nextU8().unwrap();
+  assert(skillId != SKILL_NONE, 'invalid skill');
+  assert(loadSkillDefinition(skillId) == null, 'skill exists');
+
+  const def = readSkillDefinitionArgs(ar, skillId);
+  storeSkillDefinition(def, 0);
+  const custom = getString(SKILL_REGISTRY_IDS_KEY);
+  setString(SKILL_REGISTRY_IDS_KEY, custom.length > 0 ? custom + ',' + skillId.toString() : skillId.toString());
+  generateEvent('SkillCreated:' + skillId.toString() + ':version=' + def.version.toString());
+}
+
+// Replace an existing definition, built-in or custom (admin). Same args as game_createSkill
+export function game_updateSkill(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const skillId = ar.nextU8().unwrap();
+  const current = loadSkillDefinition(skillId);
+  if (current == null) {
+    assert(false, 'skill not found');
+    return;
+  }
+
+  const def = readSkillDefinitionArgs(ar, skillId);
+  def.enabled = current.enabled;
+  storeSkillDefinition(def, current.version);
+  generateEvent('SkillUpdated:' + skillId.toString() + ':version=' + def.version.toString());
+}
+
+// Retire a skill (admin). Kept as a disabled version so learned lists stay readable
+export function game_deleteSkill(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  const skillId = ar.nextU8().unwrap();
+  const def = loadSkillDefinition(skillId);
+  if (def == null) {
+    assert(false, 'skill not found');
+    return;
+  }
+  assert(def.enabled, 'skill already deleted');
+
+  def.enabled = false;
+  storeSkillDefinition(def, def.version);
+  generateEvent('SkillDeleted:' + skillId.toString() + ':version=' + def.version.toString());
+}
+
+// Current definition of a skill, or 'null'
+export function game_readSkill(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const skillId = ar.nextU8().unwrap();
+  const def = loadSkillDefinition(skillId);
+  if (def == null) return stringToBytes('null');
+  return def.serialize();
+}
+
+// Args: skillId, version (u32, >= 1)
+export function game_readSkillVersion(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const skillId = ar.nextU8().unwrap();
+  const version = ar.nextU32().unwrap();
+  if (!hasKey(skillVersionKey(skillId, version))) return stringToBytes('null');
+  return getBytes(skillVersionKey(skillId, version));
+}
+
+// Returns: count (u32) followed by every skill id (u8), built-in first
+export function game_getSkillIds(_: StaticArray<u8>): StaticArray<u8> {
+  const custom = getString(SKILL_REGISTRY_IDS_KEY);
+  const customIds = custom.length > 0 ? custom.split(',') : [];
+  const out = new Args().add((SKILL_COMBO_BREAKER as u32) + (customIds.length as u32));
+  for (let id: u8 = SKILL_POWER_STRIKE; id <= SKILL_COMBO_BREAKER; id++) out.add(id);
+  for (let i = 0; i < customIds.length; i++) out.add(U8.parseInt(customIds[i]));
+  return out.serialize();
+}
+
+// ============================================================================
+// TOURNAMENT SYSTEM
+// ============================================================================
+
+// Create a single-elimination tournament; the creator seeds the prize pool
+// Args: tournamentId, name, maxParticipants (4/8/16/32), entryFee (u64), prizePool (u64), token (ERC20),
+//       registrationDeadline (u64 ms, optional, 0 = none)
+export function game_createTournament(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const tournamentId = ar.nextString().unwrap();
+  const name = ar.nextString().unwrap();
+  const maxParticipants = ar.nextU8().unwrap();
+  const entryFee = ar.nextU64().unwrap();
+  const prizePool = ar.nextU64().unwrap();
+  const tokenAddr = new Address(ar.nextString().unwrap());
+  const deadlineArg = ar.nextU64();
+  const registrationDeadline = deadlineArg.isErr() ? 0 : deadlineArg.unwrap();
+
+  assert(!hasKey(tournamentKey(tournamentId)), 'tournament exists');
+  assert(registrationDeadline == 0 || registrationDeadline > Context.timestamp(), 'deadline must be in the future');
+  assert(
+    maxParticipants == 4 || maxParticipants == 8 || maxParticipants == 16 || maxParticipants == 32,
+    'maxParticipants must be 4, 8, 16 or 32',
+  );
+
+  const caller = Context.caller();
+  if (prizePool > 0) {
+    const token = new IERC20(tokenAddr);
+    token.transferFrom(caller, Context.callee(), prizePool);
+  }
+
+  const t = new Tournament();
+  t.tournamentId = tournamentId;
+  t.name = name;
+  t.entryFee = entryFee;
+  t.prizePool = prizePool;
+  t.maxParticipants = maxParticipants;
+  t.currentRound = 0;
+  t.createdAt = Context.timestamp();
+  t.token = tokenAddr;
+  t.creator = caller;
+  t.registrationDeadline = registrationDeadline;
+
+  setBytes(tournamentKey(tournamentId), t.serialize());
+  const index = incrementCounter(TOURNAMENT_COUNT_KEY);
+  setString(tournamentIndexKey(index), tournamentId);
+  endNonReentrant();
+  generateEvent('TournamentCreated:' + tournamentId + ':max=' + maxParticipants.toString());
+}
+
+// Register a character; the entry fee is escrowed into the prize pool
+export function game_registerForTournament(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const tournamentId = ar.nextString().unwrap();
+  const characterId = ar.nextString().unwrap();
+
+  assert(hasKey(tournamentKey(tournamentId)), 'tournament not found');
+  assert(hasKey(characterKey(characterId)), 'character not found');
+  const t = Tournament.deserialize(getBytes(tournamentKey(tournamentId)));
+  const char = Character.deserialize(getBytes(characterKey(characterId)));
+
+  const caller = Context.caller();
+  assert(caller.toString() == char.owner.toString(), 'not character owner');
+  assert(t.currentRound == 0 && !t.isFinished, 'registration closed');
+  assert(t.registrationDeadline == 0 || Context.timestamp() < t.registrationDeadline, 'registration closed');
+  assert(t.participants.length < (t.maxParticipants as i32), 'tournament full');
+  assert(!t.participants.includes(characterId), 'already registered');
+
+  if (t.entryFee > 0) {
+    const token = new IERC20(t.token);
+    token.transferFrom(caller, Context.callee(), t.entryFee);
+    t.prizePool += t.entryFee;
+  }
+
+  t.participants.push(characterId);
+  setBytes(tournamentKey(tournamentId), t.serialize());
+  endNonReentrant();
+  generateEvent('TournamentRegistration:' + tournamentId + ':' + characterId + ':count=' + t.participants.length.toString());
+}
+
+/**
+ * Cancel a tournament that has not started. The creator or an admin can do so at any
+ * time during registration; anyone can once the registration deadline has passed.
+ * Every entry fee goes back to the registered character's owner and the rest of
+ * the pool to the creator.
+ */
+export function game_cancelTournament(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const tournamentId = ar.nextString().unwrap();
+
+  assert(hasKey(tournamentKey(tournamentId)), 'tournament not found');
+  const t = Tournament.deserialize(getBytes(tournamentKey(tournamentId)));
+  assert(t.currentRound == 0 && !t.isFinished, 'tournament already started');
+
+  const caller = Context.caller().toString();
+  const deadlinePassed = t.registrationDeadline > 0 && Context.timestamp() >= t.registrationDeadline;
+  assert(
+    deadlinePassed || caller == t.creator.toString() || hasKey(ADMIN_ROLE + ':' + caller),
+    'not authorized',
+  );
+
+  cancelTournamentRegistration(t);
+  endNonReentrant();
+}
+
+// Refund entry fees and the remaining seeded pool, then close the tournament
+function cancelTournamentRegistration(t: Tournament): void {
+  t.isCancelled = true;
+  t.isFinished = true;
+  const refunds: u64[] = [];
+  const recipients: Address[] = [];
+  if (t.entryFee > 0) {
+    for (let i = 0; i < t.participants.length; i++) {
+      recipients.push(Character.deserialize(getBytes(characterKey(t.participants[i]))).owner);
+      refunds.push(t.entryFee);
+      t.prizePool -= t.entryFee;
+    }
+  }
+  if (t.prizePool > 0) {
+    recipients.push(t.creator);
+    refunds.push(t.prizePool);
+    t.prizePool = 0;
+  }
+  setBytes(tournamentKey(t.tournamentId), t.serialize());
+
+  // external transfers last
+  const token = new IERC20(t.token);
+  for (let i = 0; i < recipients.length; i++) {
+    token.transfer(recipients[i], refunds[i]);
+    generateEvent('TournamentRefund:' + t.tournamentId + ':to=' + recipients[i].toString() + ':amount=' + refunds[i].toString());
+  }
+  generateEvent('TournamentCancelled:' + t.tournamentId + ':participants=' + t.participants.length.toString());
+}
+
+// Start a full tournament: seed the bracket and create the round 1 battles
+export function game_startTournament(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const tournamentId = ar.nextString().unwrap();
+
+  assert(hasKey(tournamentKey(tournamentId)), 'tournament not found');
+  const t = Tournament.deserialize(getBytes(tournamentKey(tournamentId)));
+  startTournamentBracket(t);
+  endNonReentrant();
+}
+
+// Advance a tournament once every match of the current round is finished (finalizing them as needed)
+export function game_advanceTournament(args: StaticArray<u8>): void {
+  whenNotPaused();
+  nonReentrant();
+  const ar = new Args(args);
+  const tournamentId = ar.nextString().unwrap();
+
+  assert(hasKey(tournamentKey(tournamentId)), 'tournament not found');
+  const t = Tournament.deserialize(getBytes(tournamentKey(tournamentId)));
+  assert(!t.isFinished, 'tournament finished');
+  assert(t.currentRound > 0, 'tournament not started');
+  const lootBattles: string[] = [];
+  assert(finalizeTournamentRound(t, lootBattles), 'round in progress');
+  advanceTournamentRound(t);
+  endNonReentrant();
+  for (let i = 0; i < lootBattles.length; i++) requestLootRandomness(lootBattles[i]);
+}
+
+export function game_readTournament(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const tournamentId = ar.nextString().unwrap();
+  if (!hasKey(tournamentKey(tournamentId))) return stringToBytes('null');
+  return getBytes(tournamentKey(tournamentId));
+}
+
+// Battle ids of a round's matches, in bracket slot order
+export function game_readTournamentMatches(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const tournamentId = ar.nextString().unwrap();
+  const round = ar.nextU8().unwrap();
+
+  assert(hasKey(tournamentKey(tournamentId)), 'tournament not found');
+  const t = Tournament.deserialize(getBytes(tournamentKey(tournamentId)));
+
+  const battleIds: string[] = [];
+  if (round >= 1 && round <= t.currentRound) {
+    const matches = tournamentMatchCount(t, round);
+    for (let slot = 0; slot < matches; slot++) {
+      battleIds.push(getString(tournamentMatchKey(tournamentId, round, slot)));
+    }
+  }
+  const result = new Args();
+  result.add(battleIds);
+  return result.serialize();
+}
+
+export function game_readTournamentCount(_: StaticArray<u8>): StaticArray<u8> {
+  const result = new Args();
+  result.add(getCounter(TOURNAMENT_COUNT_KEY));
+  return result.serialize();
+}
+
+// Standard bracket order (0-based seeds) so top seeds only meet in late rounds: 8 -> 0,7,3,4,1,6,2,5
+function bracketSeedOrder(size: i32): i32[] {
+  let order: i32[] = [0];
+  while (order.length < size) {
+    const next: i32[] = [];
+    const mirror = order.length * 2 - 1;
+    for (let i = 0; i < order.length; i++) {
+      next.push(order[i]);
+      next.push(mirror - order[i]);
+    }
+    order = next;
+  }
+  return order;
+}
+
+// Participants sorted by MMR (highest first); ties keep registration order
+function seedParticipantsByMmr(participants: string[]): string[] {
+  const seeded: string[] = [];
+  const mmrs: u64[] = [];
+  for (let i = 0; i < participants.length; i++) {
+    const mmr = Character.deserialize(getBytes(characterKey(participants[i]))).mmr;
+    seeded.push(participants[i]);
+    mmrs.push(mmr);
+    // insertion sort: shift the new entry up past lower ratings
+    let pos = seeded.length - 1;
+    while (pos > 0 && mmrs[pos - 1] < mmr) {
+      seeded[pos] = seeded[pos - 1];
+      mmrs[pos] = mmrs[pos - 1];
+      pos -= 1;
+    }
+    seeded[pos] = participants[i];
+    mmrs[pos] = mmr;
+  }
+  return seeded;
+}
+
+function startTournamentBracket(t: Tournament): void {
+  assert(!t.isFinished && t.currentRound == 0, 'tournament already started');
+  assert(t.participants.length == (t.maxParticipants as i32), 'tournament not full');
+
+  const seeded = seedParticipantsByMmr(t.participants);
+  const order = bracketSeedOrder(seeded.length);
+  const entrants: string[] = [];
+  for (let i = 0; i < order.length; i++) {
+    entrants.push(seeded[order[i]]);
+  }
+
+  t.participants = entrants; // stored in bracket order
+  t.startedAt = Context.timestamp();
+  createTournamentRound(t, 1, entrants);
+  generateEvent('TournamentStarted:' + t.tournamentId + ':participants=' + entrants.length.toString());
+}
+
+// Pair entrants (bracket order) into battles for the given round
+function createTournamentRound(t: Tournament, round: u8, entrants: string[]): void {
+  const now = Context.timestamp();
+  for (let slot = 0; slot < entrants.length / 2; slot++) {
+    const battleId = nextBattleId();
+    const battle = createBattleRecord(battleId, entrants[slot * 2], entrants[slot * 2 + 1], now);
+    battle.tournamentId = t.tournamentId;
+    battle.tournamentRound = round;
+    battle.tournamentSlot = slot as u8;
+    setBytes(battleKey(battleId), battle.serialize());
+    setString(tournamentMatchKey(t.tournamentId, round, slot), battleId);
+    generateEvent('BattleCreated:' + battleId);
+  }
+  t.currentRound = round;
+  setBytes(tournamentKey(t.tournamentId), t.serialize());
+  generateEvent('TournamentRoundStarted:' + t.tournamentId + ':round=' + round.toString() + ':matches=' + (entrants.length / 2).toString());
+}
+
+function tournamentMatchCount(t: Tournament, round: u8): i32 {
+  return (t.maxParticipants as i32) >> round;
+}
+
+/**
+ * Finalize every finished-but-unfinalized match of the current round. Matches whose
+ * loot waits on a randomness source are added to `lootBattles` for the caller to request.
+ * Returns true when the whole round is finished (so it can be advanced).
+ */
+function finalizeTournamentRound(t: Tournament, lootBattles: string[]): bool {
+  const matches = tournamentMatchCount(t, t.currentRound);
+  let allFinished = true;
+  for (let slot = 0; slot < matches; slot++) {
+    const battleId = getString(tournamentMatchKey(t.tournamentId, t.currentRound, slot));
+    const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+    if (!battle.isFinished) {
+      allFinished = false;
+      continue;
+    }
+    if (!battle.isFinalized && finalizeBattleResult(battleId, battle)) {
+      lootBattles.push(battleId);
+    }
+  }
+  return allFinished;
+}
+
+// Collect the current round's winners and start the next round or close the tournament
+function advanceTournamentRound(t: Tournament): void {
+  const matches = tournamentMatchCount(t, t.currentRound);
+  const winners: string[] = [];
+  for (let slot = 0; slot < matches; slot++) {
+    const battleId = getString(tournamentMatchKey(t.tournamentId, t.currentRound, slot));
+    const battle = Battle.deserialize(getBytes(battleKey(battleId)));
+    winners.push(battle.winner == 1 ? battle.player1Char.toString() : battle.player2Char.toString());
+  }
 
-  equip.owner = toAddr;
-  setBytes(equipmentKey(equipmentId), equip.serialize());
-  endNonReentrant();
-  generateEvent('EquipmentTransferred:' + equipmentId);
+  generateEvent(
+    'TournamentRoundCompleted:' + t.tournamentId + ':round=' + t.currentRound.toString() + ':winners=' + winners.join(','),
+  );
+
+  if (winners.length == 1) {
+    finishTournament(t, winners[0]);
+    return;
+  }
+  createTournamentRound(t, t.currentRound + 1, winners);
 }
 
-// Read equipment
-export function game_readEquipment(args: StaticArray<u8>): StaticArray<u8> {
-  const ar = new Args(args);
-  const equipmentId = ar.nextString().unwrap();
-  if (!hasKey(equipmentKey(equipmentId))) return stringToBytes('null');
-  return getBytes(equipmentKey(equipmentId));
+// Pay the prize pool (minus house edge) to the champion's owner
+function finishTournament(t: Tournament, winnerCharId: string): void {
+  t.winner = winnerCharId;
+  t.isFinished = true;
+
+  const champion = Character.deserialize(getBytes(characterKey(winnerCharId)));
+  const entry = loadLeaderboardEntry(winnerCharId, champion);
+  entry.tournamentsWon += 1;
+  setBytes(leaderboardKey(winnerCharId), entry.serialize());
+  repositionOnLeaderboard(winnerCharId, entry.mmr);
+
+  incrementCounter(playerStatKey(champion.owner, STAT_TOURNAMENT_WINS));
+  evaluateAchievements(champion.owner);
+
+  const prize = t.prizePool;
+  t.prizePool = 0;
+  setBytes(tournamentKey(t.tournamentId), t.serialize());
+
+  if (prize > 0) {
+    const houseAmount = prize * (DEFAULT_HOUSE_EDGE_BPS as u64) / BASIS_POINTS;
+    const payout = prize - houseAmount;
+    if (houseAmount > 0) {
+      setCounter(TREASURY_BALANCE_KEY, getCounter(TREASURY_BALANCE_KEY) + houseAmount);
+    }
+    const token = new IERC20(t.token);
+    token.transfer(champion.owner, payout);
+    generateEvent('TournamentPrizePaid:' + t.tournamentId + ':' + champion.owner.toString() + ':' + payout.toString());
+  }
+
+  generateEvent('TournamentFinished:' + t.tournamentId + ':winner=' + winnerCharId);
 }
 
 // ============================================================================
-// SKILL SYSTEM
+// MATCHMAKING
 // ============================================================================
+//
+// Owners queue a character with an acceptable MMR range and an optional
+// stake. Each ticket's window widens the longer it waits; two tickets match
+// when each character falls inside the other's window, their levels are close
+// enough and their stakes are identical. Matching happens on enqueue and on
+// every matchmaking bot cycle.
+
+function loadMatchQueue(): string[] {
+  const raw = getString(MATCHMAKING_QUEUE_KEY);
+  return raw.length > 0 ? raw.split(',') : [];
+}
 
-// Learn a new skill (costs XP or tokens)
-export function game_learnSkill(args: StaticArray<u8>): void {
-  whenNotPaused();
-  nonReentrant();
-  const ar = new Args(args);
-  const characterId = ar.nextString().unwrap();
-  const skillId = ar.nextU8().unwrap();
+function removeFromMatchQueue(charId: string): void {
+  const queue = loadMatchQueue();
+  const kept: string[] = [];
+  for (let i = 0; i < queue.length; i++) {
+    if (queue[i] != charId) kept.push(queue[i]);
+  }
+  setString(MATCHMAKING_QUEUE_KEY, kept.join(','));
+  deleteKey(matchmakingTicketKey(charId));
+}
 
-  assert(skillId > SKILL_NONE && skillId <= SKILL_COMBO_BREAKER, 'invalid skill');
-  assert(hasKey(characterKey(characterId)), 'character not found');
+// Widening steps earned by a ticket so far
+function matchmakingWidenSteps(ticket: MatchmakingTicket, now: u64): u64 {
+  const waited = now > ticket.enqueuedAt ? now - ticket.enqueuedAt : 0;
+  const steps = waited / MATCHMAKING_WIDEN_INTERVAL;
+  const maxSteps = MATCHMAKING_MAX_WIDEN / MATCHMAKING_WIDEN_STEP;
+  return steps < maxSteps ? steps : maxSteps;
+}
 
-  const charData = getBytes(characterKey(characterId));
-  const char = Character.deserialize(charData);
+function ticketAccepts(ticket: MatchmakingTicket, opponentMmr: u64, now: u64): bool {
+  const widen = matchmakingWidenSteps(ticket, now) * MATCHMAKING_WIDEN_STEP;
+  const low = ticket.minMmr > widen ? ticket.minMmr - widen : 0;
+  return opponentMmr >= low && opponentMmr <= ticket.maxMmr + widen;
+}
 
-  const caller = Context.caller();
-  assert(caller.toString() == char.owner.toString(), 'not character owner');
+function ticketsCompatible(a: MatchmakingTicket, ca: Character, b: MatchmakingTicket, cb: Character, now: u64): bool {
+  if (a.owner.toString() == b.owner.toString()) return false;
+  if (a.stakeToken != b.stakeToken || a.stakeAmount != b.stakeAmount) return false;
+  if (!ticketAccepts(a, cb.mmr, now) || !ticketAccepts(b, ca.mmr, now)) return false;
+
+  // Both sides must tolerate the level gap; the longer-waiting side sets the pace
+  const stepsA = matchmakingWidenSteps(a, now);
+  const stepsB = matchmakingWidenSteps(b, now);
+  const allowedGap = MATCHMAKING_BASE_LEVEL_GAP + (stepsA < stepsB ? stepsA : stepsB);
+  const gap = ca.level > cb.level ? ca.level - cb.level : cb.level - ca.level;
+  return (gap as u64) <= allowedGap;
+}
 
-  // Check if skill already learned
-  const learnedArray = char.learnedSkills.length > 0 ? char.learnedSkills.split(',') : [];
-  for (let i = 0; i < learnedArray.length; i++) {
-    if (parseInt(learnedArray[i]) == skillId) {
-      assert(false, 'skill already learned');
+// Best (closest MMR) queued opponent for a ticket, or '' if none is compatible
+function findMatchFor(ticket: MatchmakingTicket, char: Character, queue: string[], now: u64): string {
+  let best = '';
+  let bestDiff: u64 = u64.MAX_VALUE;
+  for (let i = 0; i < queue.length; i++) {
+    const otherId = queue[i];
+    if (otherId == ticket.characterId || !hasKey(matchmakingTicketKey(otherId))) continue;
+    const other = MatchmakingTicket.deserialize(getBytes(matchmakingTicketKey(otherId)));
+    const otherChar = Character.deserialize(getBytes(characterKey(otherId)));
+    if (!ticketsCompatible(ticket, char, other, otherChar, now)) continue;
+
+    const diff = char.mmr > otherChar.mmr ? char.mmr - otherChar.mmr : otherChar.mmr - char.mmr;
+    if (diff < bestDiff) {
+      best = otherId;
+      bestDiff = diff;
     }
   }
+  return best;
+}
 
-  // Require minimum level based on skill
-  const requiredLevel: u16 = skillId <= 3 ? 1 : (skillId <= 6 ? 5 : 10);
-  assert(char.level >= requiredLevel, 'level too low for this skill');
-
-  // Add to learned skills
-  if (char.learnedSkills.length > 0) {
-    char.learnedSkills = char.learnedSkills + ',' + skillId.toString();
-  } else {
-    char.learnedSkills = skillId.toString();
+// Create the battle for a matched pair (waiting ticket becomes player 1) and clear both tickets
+function createMatchedBattle(waiting: MatchmakingTicket, incoming: MatchmakingTicket): string {
+  const battleId = nextBattleId();
+  const battle = createBattleRecord(battleId, waiting.characterId, incoming.characterId, Context.timestamp() + MATCHMAKING_START_DELAY);
+  battle.stakeToken = waiting.stakeToken;
+  battle.stakeAmount = waiting.stakeAmount;
+  setBytes(battleKey(battleId), battle.serialize());
+  if (battle.stakeAmount > 0) {
+    generateEvent('WagerDeposited:' + battleId + ':player=1:amount=' + battle.stakeAmount.toString());
+    generateEvent('WagerDeposited:' + battleId + ':player=2:amount=' + battle.stakeAmount.toString());
   }
 
-  setBytes(characterKey(characterId), char.serialize());
-  endNonReentrant();
-  generateEvent('SkillLearned:' + characterId + ':' + skillId.toString());
+  removeFromMatchQueue(waiting.characterId);
+  removeFromMatchQueue(incoming.characterId);
+
+  generateEvent('BattleCreated:' + battleId);
+  generateEvent('MatchFound:' + battleId + ':player1=' + waiting.characterId + ':player2=' + incoming.characterId);
+  return battleId;
 }
 
-// Equip a learned skill to a slot
-export function game_equipSkill(args: StaticArray<u8>): void {
+function refundTicketStake(ticket: MatchmakingTicket): void {
+  if (ticket.stakeAmount == 0) return;
+  const token = new IERC20(new Address(ticket.stakeToken));
+  token.transfer(ticket.owner, ticket.stakeAmount);
+}
+
+// Args: characterId, minMmr (u64), maxMmr (u64), stakeAmount (u64, optional), stakeToken (string, required with a stake)
+export function game_enqueueForMatch(args: StaticArray<u8>): void {
   whenNotPaused();
   nonReentrant();
   const ar = new Args(args);
-  const characterId = ar.nextString().unwrap();
-  const skillId = ar.nextU8().unwrap();
-  const slot = ar.nextU8().unwrap(); // 1, 2, or 3
-
-  assert(slot >= 1 && slot <= 3, 'invalid slot');
-  assert(hasKey(characterKey(characterId)), 'character not found');
+  const charId = ar.nextString().unwrap();
+  const minMmr = ar.nextU64().unwrap();
+  const maxMmr = ar.nextU64().unwrap();
+  const stakeArg = ar.nextU64();
+  const stakeAmount = stakeArg.isErr() ? 0 : stakeArg.unwrap();
+  const tokenArg = ar.nextString();
+  const stakeToken = tokenArg.isErr() ? '' : tokenArg.unwrap();
 
-  const charData = getBytes(characterKey(characterId));
-  const char = Character.deserialize(charData);
+  assert(hasKey(characterKey(charId)), 'character not found');
+  assert(!hasKey(matchmakingTicketKey(charId)), 'already queued');
+  assert(minMmr <= maxMmr, 'invalid mmr range');
+  assert(stakeAmount == 0 || stakeToken.length > 0, 'stake token required');
 
+  const char = Character.deserialize(getBytes(characterKey(charId)));
   const caller = Context.caller();
-  assert(caller.toString() == char.owner.toString(), 'not character owner');
+  assert(caller.toString() == char.owner.toString(), 'not owner');
 
-  // Check if skill is learned (or allow SKILL_NONE to unequip)
-  if (skillId != SKILL_NONE) {
-    const learnedArray = char.learnedSkills.length > 0 ? char.learnedSkills.split(',') : [];
-    let found = false;
-    for (let i = 0; i < learnedArray.length; i++) {
-      if (parseInt(learnedArray[i]) == skillId) {
-        found = true;
-        break;
-      }
-    }
-    assert(found, 'skill not learned');
+  const queue = loadMatchQueue();
+  assert(queue.length < MATCHMAKING_MAX_QUEUE, 'queue full');
+
+  if (stakeAmount > 0) {
+    const token = new IERC20(new Address(stakeToken));
+    token.transferFrom(caller, Context.callee(), stakeAmount);
   }
 
-  // Equip to slot
-  if (slot == 1) {
-    char.skill1 = skillId;
-  } else if (slot == 2) {
-    char.skill2 = skillId;
-  } else {
-    char.skill3 = skillId;
+  const ticket = new MatchmakingTicket();
+  ticket.characterId = charId;
+  ticket.owner = caller;
+  ticket.minMmr = minMmr;
+  ticket.maxMmr = maxMmr;
+  ticket.stakeToken = stakeAmount > 0 ? stakeToken : '';
+  ticket.stakeAmount = stakeAmount;
+  ticket.enqueuedAt = Context.timestamp();
+
+  setBytes(matchmakingTicketKey(charId), ticket.serialize());
+  queue.push(charId);
+  setString(MATCHMAKING_QUEUE_KEY, queue.join(','));
+  generateEvent('MatchmakingEnqueued:' + charId + ':mmr=' + char.mmr.toString() + ':stake=' + stakeAmount.toString());
+
+  const opponentId = findMatchFor(ticket, char, queue, ticket.enqueuedAt);
+  if (opponentId.length > 0) {
+    const waiting = MatchmakingTicket.deserialize(getBytes(matchmakingTicketKey(opponentId)));
+    createMatchedBattle(waiting, ticket);
   }
+  endNonReentrant();
+}
 
-  setBytes(characterKey(characterId), char.serialize());
+// Leave the queue and get the stake back (character owner or admin)
+export function game_dequeueFromMatch(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const charId = ar.nextString().unwrap();
+
+  assert(hasKey(matchmakingTicketKey(charId)), 'not queued');
+  const ticket = MatchmakingTicket.deserialize(getBytes(matchmakingTicketKey(charId)));
+
+  const caller = Context.caller();
+  assert(caller.toString() == ticket.owner.toString() || hasKey(ADMIN_ROLE + ':' + caller.toString()), 'not authorized');
+
+  removeFromMatchQueue(charId);
+  refundTicketStake(ticket);
   endNonReentrant();
-  generateEvent('SkillEquipped:' + characterId + ':slot' + slot.toString() + ':' + skillId.toString());
+  generateEvent('MatchmakingDequeued:' + charId);
 }
 
-// Helper function to get skill cooldown based on skill type
-function getSkillCooldown(skillId: u8): u8 {
-  if (skillId == SKILL_POWER_STRIKE) return 3;
-  if (skillId == SKILL_HEAL) return 4;
-  if (skillId == SKILL_POISON_STRIKE) return 2;
-  if (skillId == SKILL_STUN_STRIKE) return 5;
-  if (skillId == SKILL_SHIELD_WALL) return 3;
-  if (skillId == SKILL_RAGE_MODE) return 4;
-  if (skillId == SKILL_CRITICAL_EYE) return 6;
-  if (skillId == SKILL_DODGE_MASTER) return 5;
-  if (skillId == SKILL_BURN_AURA) return 3;
-  if (skillId == SKILL_COMBO_BREAKER) return 4;
-  return 0;
+export function game_readMatchTicket(args: StaticArray<u8>): StaticArray<u8> {
+  const ar = new Args(args);
+  const charId = ar.nextString().unwrap();
+  if (!hasKey(matchmakingTicketKey(charId))) return stringToBytes('null');
+  return getBytes(matchmakingTicketKey(charId));
 }
 
-// Helper function to get skill energy cost
-function getSkillEnergyCost(skillId: u8): u8 {
-  if (skillId == SKILL_POWER_STRIKE) return 30;
-  if (skillId == SKILL_HEAL) return 40;
-  if (skillId == SKILL_POISON_STRIKE) return 25;
-  if (skillId == SKILL_STUN_STRIKE) return 50;
-  if (skillId == SKILL_SHIELD_WALL) return 30;
-  if (skillId == SKILL_RAGE_MODE) return 40;
-  if (skillId == SKILL_CRITICAL_EYE) return 60;
-  if (skillId == SKILL_DODGE_MASTER) return 50;
-  if (skillId == SKILL_BURN_AURA) return 35;
-  if (skillId == SKILL_COMBO_BREAKER) return 45;
-  return 0;
+// Returns: queued character IDs (string array, oldest first)
+export function game_readMatchQueue(_: StaticArray<u8>): StaticArray<u8> {
+  return new Args().add(loadMatchQueue()).serialize();
 }
 
 // ============================================================================
@@ -1880,6 +5695,7 @@ export class SinglePool {
   maxPoolSize: u64; // 0 = unlimited
   minBetSize: u64;
   maxBetSize: u64;
+  isCancelled: bool; // Linked battle cancelled/voided: every bet is refunded
 
   constructor() {
     this.poolId = '';
@@ -1899,6 +5715,7 @@ export class SinglePool {
     this.maxPoolSize = 0; // unlimited by default
     this.minBetSize = 1; // 1 token minimum
     this.maxBetSize = 0; // unlimited by default
+    this.isCancelled = false;
   }
 
   serialize(): StaticArray<u8> {
@@ -1920,6 +5737,7 @@ export class SinglePool {
     a.add(this.maxPoolSize);
     a.add(this.minBetSize);
     a.add(this.maxBetSize);
+    a.add(this.isCancelled);
     return a.serialize();
   }
 
@@ -1943,6 +5761,7 @@ export class SinglePool {
     p.maxPoolSize = a.nextU64().unwrap();
     p.minBetSize = a.nextU64().unwrap();
     p.maxBetSize = a.nextU64().unwrap();
+    p.isCancelled = a.nextBool().unwrap();
     return p;
   }
 }
@@ -1998,6 +5817,7 @@ export class Multipool {
   isFinalized: bool;
   houseEdgeBps: u16;
   createdAt: u64;
+  totalRefunded: u128; // Stakes of betslips whose every leg was cancelled; excluded from the payout pool
 
   constructor() {
     this.multipoolId = '';
@@ -2008,6 +5828,7 @@ export class Multipool {
     this.isFinalized = false;
     this.houseEdgeBps = DEFAULT_HOUSE_EDGE_BPS;
     this.createdAt = 0;
+    this.totalRefunded = u128.Zero;
   }
 
   serialize(): StaticArray<u8> {
@@ -2020,6 +5841,7 @@ export class Multipool {
     a.add(this.isFinalized);
     a.add(this.houseEdgeBps as u32);
     a.add(this.createdAt);
+    a.add(this.totalRefunded.toString());
     return a.serialize();
   }
 
@@ -2034,6 +5856,7 @@ export class Multipool {
     m.isFinalized = a.nextBool().unwrap();
     m.houseEdgeBps = a.nextU32().unwrap() as u16;
     m.createdAt = a.nextU64().unwrap();
+    m.totalRefunded = u128.fromString(a.nextString().unwrap());
     return m;
   }
 }
@@ -2073,6 +5896,7 @@ export class Betslip {
   isClaimed: bool;
   isAccounted: bool;
   placedAt: u64;
+  isRefund: bool; // Every leg was cancelled: the stake is returned instead of paid from the pool
 
   constructor() {
     this.betslipId = '';
@@ -2086,6 +5910,7 @@ export class Betslip {
     this.isClaimed = false;
     this.isAccounted = false;
     this.placedAt = 0;
+    this.isRefund = false;
   }
 
   serialize(): StaticArray<u8> {
@@ -2101,6 +5926,7 @@ export class Betslip {
     a.add(this.isClaimed);
     a.add(this.isAccounted);
     a.add(this.placedAt);
+    a.add(this.isRefund);
     return a.serialize();
   }
 
@@ -2119,6 +5945,7 @@ export class Betslip {
     b.isClaimed = a.nextBool().unwrap();
     b.isAccounted = a.nextBool().unwrap();
     b.placedAt = a.nextU64().unwrap();
+    b.isRefund = a.nextBool().unwrap();
     return b;
   }
 }
@@ -2143,6 +5970,7 @@ export class PropBet {
   isResolved: bool;
   outcome: bool; // true = yes won, false = no won
   createdAt: u64;
+  isCancelled: bool; // Linked battle cancelled/voided: every ticket is refunded
 
   constructor() {
     this.propId = '';
@@ -2155,6 +5983,7 @@ export class PropBet {
     this.isResolved = false;
     this.outcome = false;
     this.createdAt = 0;
+    this.isCancelled = false;
   }
 
   serialize(): StaticArray<u8> {
@@ -2169,6 +5998,7 @@ export class PropBet {
     a.add(this.isResolved);
     a.add(this.outcome);
     a.add(this.createdAt);
+    a.add(this.isCancelled);
     return a.serialize();
   }
 
@@ -2185,6 +6015,7 @@ export class PropBet {
     p.isResolved = a.nextBool().unwrap();
     p.outcome = a.nextBool().unwrap();
     p.createdAt = a.nextU64().unwrap();
+    p.isCancelled = a.nextBool().unwrap();
     return p;
   }
 }
@@ -2406,6 +6237,7 @@ export function prediction_settleSinglePool(args: StaticArray<u8>): void {
 
   assert(pool.isClosed, 'pool not closed');
   assert(!pool.isSettled, 'already settled');
+  assert(!pool.isCancelled, 'pool cancelled');
 
   // Authorization: settler must be an authorized address (game or oracle)
   const caller = Context.caller();
@@ -2429,12 +6261,24 @@ export function prediction_claimSingleBet(args: StaticArray<u8>): void {
 
   assert(hasKey(spoolKey(poolId)), 'pool missing');
   const pool = SinglePool.deserialize(getBytes(spoolKey(poolId)));
-  assert(pool.isSettled, 'pool not settled');
+  assert(pool.isSettled || pool.isCancelled, 'pool not settled');
   const betKey = sbetKey(poolId, bettor.toString());
   assert(hasKey(betKey), 'bet not found');
   const bet = SingleBet.deserialize(getBytes(betKey));
   assert(!bet.isClaimed, 'already claimed');
 
+  // Cancelled pool: stake back in full, streak untouched
+  if (pool.isCancelled) {
+    bet.isClaimed = true;
+    setBytes(betKey, bet.serialize());
+    const refund = bet.amount.toU64();
+    new IERC20(pool.token).transfer(bettor, refund);
+    incrementCounter(TOTAL_BETS_CLAIMED_KEY);
+    endNonReentrant();
+    generateEvent('SingleBetRefunded:' + poolId + ':' + bettor.toString() + ':amount=' + refund.toString());
+    return;
+  }
+
   // Track betting streaks
   const streakKeyBettor = streakKey(bettor);
   const currentStreak = getCounter(streakKeyBettor);
@@ -2502,6 +6346,24 @@ export function prediction_claimSingleBet(args: StaticArray<u8>): void {
   generateEvent('SingleBetClaimed:' + poolId + ':' + bettor.toString() + ':payout=' + payoutU.toString() + ':streak=' + newStreak.toString() + ':bonus=' + streakBonus.toString());
 }
 
+// Cancel a pool whose battle was cancelled or voided so bettors can reclaim stakes (callable by anyone)
+export function prediction_cancelSinglePool(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const poolId = ar.nextString().unwrap();
+
+  assert(hasKey(spoolKey(poolId)), 'pool missing');
+  const pool = SinglePool.deserialize(getBytes(spoolKey(poolId)));
+  assert(!pool.isSettled && !pool.isCancelled, 'pool already resolved');
+  assert(battleRefundsBets(pool.battleId), 'battle not cancelled');
+
+  pool.isCancelled = true;
+  pool.isClosed = true;
+  setBytes(spoolKey(poolId), pool.serialize());
+  endNonReentrant();
+  generateEvent('SinglePoolCancelled:' + poolId);
+}
+
 // Authorize settler (admin)
 export function prediction_setAuthorizedSettler(args: StaticArray<u8>): void {
   onlyRole(ADMIN_ROLE);
@@ -2676,6 +6538,8 @@ export function prediction_placeMultibet(args: StaticArray<u8>): void {
 }
 
 // Check if betslip is winner (all selections correct)
+// Legs on a cancelled pool (or one whose battle was cancelled/voided) are dropped and the
+// parlay is re-weighted on the remaining legs; if every leg is dropped the stake is refunded.
 export function prediction_checkBetslipWinner(args: StaticArray<u8>): void {
   whenNotPaused();
   nonReentrant();
@@ -2688,12 +6552,19 @@ export function prediction_checkBetslipWinner(args: StaticArray<u8>): void {
 
   // Check all selections
   let isWinner = true;
+  let voidedLegs = 0;
+  let liveOddsFP: u128 = ODDS_SCALE_U128;
   for (let i = 0; i < betslip.selections.length; i++) {
     const sel = BetslipSelection.fromString(betslip.selections[i]);
 
     assert(hasKey(spoolKey(sel.poolId)), 'pool missing');
     const pool = SinglePool.deserialize(getBytes(spoolKey(sel.poolId)));
+    if (pool.isCancelled || (!pool.isSettled && battleRefundsBets(pool.battleId))) {
+      voidedLegs += 1;
+      continue;
+    }
     assert(pool.isSettled, 'pool not settled');
+    liveOddsFP = liveOddsFP * sel.oddsFP / ODDS_SCALE_U128;
 
     if (pool.winningOutcome != sel.outcome) {
       isWinner = false;
@@ -2701,20 +6572,35 @@ export function prediction_checkBetslipWinner(args: StaticArray<u8>): void {
     }
   }
 
-  betslip.isWinner = isWinner;
+  const isRefund = isWinner && voidedLegs == betslip.selections.length;
+  betslip.isWinner = isWinner && !isRefund;
+  betslip.isRefund = isRefund;
   betslip.isAccounted = true;
 
-  // If winner, add to multipool winner weight
   if (isWinner) {
     assert(hasKey(mpoolKey(betslip.multipoolId)), 'multipool missing');
     const mp = Multipool.deserialize(getBytes(mpoolKey(betslip.multipoolId)));
-    mp.totalWinnerWeightFP = mp.totalWinnerWeightFP + betslip.weightFP;
+    mp.totalWeightFP = mp.totalWeightFP - betslip.weightFP;
+    if (isRefund) {
+      betslip.weightFP = u128.Zero;
+      mp.totalRefunded = mp.totalRefunded + betslip.amount;
+    } else {
+      if (voidedLegs > 0) {
+        betslip.combinedOddsFP = liveOddsFP;
+        betslip.weightFP = betslip.amount * liveOddsFP / ODDS_SCALE_U128;
+      }
+      mp.totalWeightFP = mp.totalWeightFP + betslip.weightFP;
+      mp.totalWinnerWeightFP = mp.totalWinnerWeightFP + betslip.weightFP;
+    }
     setBytes(mpoolKey(betslip.multipoolId), mp.serialize());
   }
 
   setBytes(betslipKey(betslipId), betslip.serialize());
   endNonReentrant();
-  generateEvent('BetslipChecked:' + betslipId + ':winner=' + (isWinner ? '1' : '0'));
+  generateEvent(
+    'BetslipChecked:' + betslipId + ':winner=' + (betslip.isWinner ? '1' : '0') +
+    ':voidedLegs=' + voidedLegs.toString() + (isRefund ? ':refund' : ''),
+  );
 }
 
 // Finalize multipool (after all betslips checked)
@@ -2749,6 +6635,19 @@ export function prediction_claimMultibet(args: StaticArray<u8>): void {
 
   assert(hasKey(mpoolKey(betslip.multipoolId)), 'multipool missing');
   const mp = Multipool.deserialize(getBytes(mpoolKey(betslip.multipoolId)));
+
+  // Every leg cancelled: stake back in full, no need to wait for finalization
+  if (betslip.isRefund) {
+    betslip.isClaimed = true;
+    setBytes(betslipKey(betslipId), betslip.serialize());
+    const refund = betslip.amount.toU64();
+    new IERC20(mp.token).transfer(betslip.bettor, refund);
+    incrementCounter(TOTAL_BETS_CLAIMED_KEY);
+    endNonReentrant();
+    generateEvent('MultibetRefunded:' + betslipId + ':amount=' + refund.toString());
+    return;
+  }
+
   assert(mp.isFinalized, 'multipool not finalized');
 
   // If not winner, just mark claimed
@@ -2761,8 +6660,8 @@ export function prediction_claimMultibet(args: StaticArray<u8>): void {
     return;
   }
 
-  // Calculate payout
-  const totalU = mp.totalPool;
+  // Calculate payout (refunded stakes are not part of the pool)
+  const totalU = mp.totalPool - mp.totalRefunded;
   const houseAmount = totalU * u128.fromU64(mp.houseEdgeBps) / u128.fromU64(BASIS_POINTS);
   const payoutPool = totalU - houseAmount;
 
@@ -2852,7 +6751,7 @@ export function propbet_placeBet(args: StaticArray<u8>): void {
   const propData = getBytes(propBetKey(propId));
   const prop = PropBet.deserialize(propData);
 
-  assert(!prop.isResolved, 'prop already resolved');
+  assert(!prop.isResolved && !prop.isCancelled, 'prop already resolved');
   assert(amount > 0, 'amount must be positive');
 
   const caller = Context.caller();
@@ -2901,13 +6800,13 @@ export function propbet_resolveProp(args: StaticArray<u8>): void {
   const propData = getBytes(propBetKey(propId));
   const prop = PropBet.deserialize(propData);
 
-  assert(!prop.isResolved, 'already resolved');
+  assert(!prop.isResolved && !prop.isCancelled, 'already resolved');
 
   // Verify battle is finished
   assert(hasKey(battleKey(prop.battleId)), 'battle missing');
   const battleData = getBytes(battleKey(prop.battleId));
   const battle = Battle.deserialize(battleData);
-  assert(battle.isFinished, 'battle not finished');
+  assert(battle.status == BATTLE_STATUS_FINISHED, 'battle not finished');
 
   prop.isResolved = true;
   prop.outcome = outcome;
@@ -2939,7 +6838,19 @@ export function propbet_claimProp(args: StaticArray<u8>): void {
   const propData = getBytes(propBetKey(propId));
   const prop = PropBet.deserialize(propData);
 
-  assert(prop.isResolved, 'prop not resolved');
+  assert(prop.isResolved || prop.isCancelled, 'prop not resolved');
+
+  // Cancelled prop: stake back in full
+  if (prop.isCancelled) {
+    ticket.isClaimed = true;
+    setBytes(ticketKey, ticket.serialize());
+    const refund = ticket.amount.toU64();
+    new IERC20(tokenAddr).transfer(caller, refund);
+    incrementCounter(TOTAL_BETS_CLAIMED_KEY);
+    endNonReentrant();
+    generateEvent('PropBetRefunded:' + propId + ':' + caller.toString() + ':' + refund.toString());
+    return;
+  }
 
   // Check if bettor won
   const isWinner = ticket.prediction == prop.outcome;
@@ -2985,6 +6896,23 @@ export function propbet_claimProp(args: StaticArray<u8>): void {
   generateEvent('PropBetClaimed:' + propId + ':' + caller.toString() + ':' + payoutU64.toString());
 }
 
+// Cancel a prop whose battle was cancelled or voided (callable by anyone)
+export function propbet_cancelProp(args: StaticArray<u8>): void {
+  nonReentrant();
+  const ar = new Args(args);
+  const propId = ar.nextString().unwrap();
+
+  assert(hasKey(propBetKey(propId)), 'prop does not exist');
+  const prop = PropBet.deserialize(getBytes(propBetKey(propId)));
+  assert(!prop.isResolved && !prop.isCancelled, 'already resolved');
+  assert(battleRefundsBets(prop.battleId), 'battle not cancelled');
+
+  prop.isCancelled = true;
+  setBytes(propBetKey(propId), prop.serialize());
+  endNonReentrant();
+  generateEvent('PropBetCancelled:' + propId);
+}
+
 // View function to read prop bet state
 export function propbet_readProp(args: StaticArray<u8>): StaticArray<u8> {
   const ar = new Args(args);
@@ -3141,19 +7069,76 @@ export function advanceBattleBot(_: StaticArray<u8>): void {
 
     processedCount += 1;
 
-    if (battle.isFinished) {
-      continue;
+    if (battle.status > BATTLE_STATUS_AWAITING_WILDCARD) {
+      continue; // Finished, cancelled or voided
     }
 
     const now = Context.timestamp();
 
-    // Check turn timeout
-    if (battle.lastTurnTimestamp > 0 && now - battle.lastTurnTimestamp > battle.turnTimeout) {
-      generateEvent('BattleBot:TurnTimeout|battleId=' + battleId + '|elapsed=' + (now - battle.lastTurnTimestamp).toString());
+    // Unaccepted challenges are never forfeited, only expired once startTs passes
+    if (!battle.isAccepted) {
+      if (now >= battle.startTs) {
+        closeBattleBeforeResult(battleId, battle, BATTLE_STATUS_CANCELLED);
+        timeoutCount += 1;
+        generateEvent('BattleBot:ChallengeExpired|battleId=' + battleId);
+      }
+      continue;
+    }
 
-      // Auto-forfeit the current player
-      battle.isFinished = true;
-      battle.winner = battle.currentTurn == 1 ? 2 : 1; // Opponent wins
+    // Turn clocks only run once the battle has started
+    if (now < battle.startTs) {
+      continue;
+    }
+
+    // Lapsed wildcards resolve with the missing decisions as declines; the turn clock restarts
+    if (battle.status == BATTLE_STATUS_AWAITING_WILDCARD) {
+      if (now > battle.wildcardDecisionDeadline) {
+        resolveWildcard(battleId, battle);
+        setBytes(battleKey(battleId), battle.serialize());
+        generateEvent('BattleBot:WildcardResolved|battleId=' + battleId);
+      }
+      continue;
+    }
+
+    // A turn parked on the randomness source is not the player's fault: re-request or give up instead
+    if (battle.awaitingRandomness) {
+      if (randomnessStalled(battle)) {
+        recoverStalledRandomness(battleId, battle);
+        timeoutCount += 1;
+        generateEvent('BattleBot:RandomnessStalled|battleId=' + battleId + '|retries=' + battle.randomnessRetries.toString());
+      }
+      continue;
+    }
+
+    const turnClockStart = battle.lastTurnTimestamp > battle.startTs ? battle.lastTurnTimestamp : battle.startTs;
+
+    // Check turn timeout
+    if (now - turnClockStart > battle.turnTimeout) {
+      generateEvent('BattleBot:TurnTimeout|battleId=' + battleId + '|elapsed=' + (now - turnClockStart).toString());
+
+      // Auto-forfeit the current player, unless they were blocked by the
+      // waiting player never posting a randomness commitment
+      const waitingCommitment = battle.currentTurn == 1 ? battle.player2Commitment : battle.player1Commitment;
+      const ownCommitment = battle.currentTurn == 1 ? battle.player1Commitment : battle.player2Commitment;
+      const blockedByWaiting = battle.randomnessSource.length == 0 && waitingCommitment.length == 0;
+
+      // Neither side committed, so neither can be blamed: void and refund
+      // (tournament brackets need a result and keep the HP leader instead)
+      if (blockedByWaiting && ownCommitment.length == 0) {
+        if (battle.tournamentId.length > 0) {
+          finishBattle(battle, battle.player1Hp >= battle.player2Hp ? 1 : 2);
+          setBytes(battleKey(battleId), battle.serialize());
+          incrementCounter(TOTAL_BATTLES_FINISHED_KEY);
+        } else {
+          closeBattleBeforeResult(battleId, battle, BATTLE_STATUS_VOIDED);
+        }
+        timeoutCount += 1;
+        generateEvent('BattleBot:NoCommitments|battleId=' + battleId + '|winner=' + battle.winner.toString());
+        continue;
+      }
+      const forfeiter: u8 = blockedByWaiting ? (battle.currentTurn == 1 ? 2 : 1) : battle.currentTurn;
+      finishBattle(battle, forfeiter == 1 ? 2 : 1); // Opponent wins
+      settleWager(battleId, battle);
       setBytes(battleKey(battleId), battle.serialize());
       incrementCounter(TOTAL_BATTLES_FINISHED_KEY);
 
@@ -3167,8 +7152,8 @@ export function advanceBattleBot(_: StaticArray<u8>): void {
       generateEvent('BattleBot:BattleDeadlineExceeded|battleId=' + battleId);
 
       // Auto-finish with current HP leader as winner
-      battle.isFinished = true;
-      battle.winner = battle.player1Hp >= battle.player2Hp ? 1 : 2;
+      finishBattle(battle, battle.player1Hp >= battle.player2Hp ? 1 : 2);
+      settleWager(battleId, battle);
       setBytes(battleKey(battleId), battle.serialize());
       incrementCounter(TOTAL_BATTLES_FINISHED_KEY);
 
@@ -3272,8 +7257,9 @@ export function advanceTournamentBot(_: StaticArray<u8>): void {
   const totalTournaments = getCounter(TOURNAMENT_COUNT_KEY);
   generateEvent('TournamentBot:Processing|totalTournaments=' + totalTournaments.toString());
 
-  let startTournamentId = botCounter * TOURNAMENT_BOT_MAX_PER_CYCLE + 1;
-  let endTournamentId = startTournamentId + TOURNAMENT_BOT_MAX_PER_CYCLE;
+  // Wrap around so running tournaments are revisited until they finish
+  let startTournamentId = totalTournaments > 0 ? (botCounter * TOURNAMENT_BOT_MAX_PER_CYCLE) % totalTournaments + 1 : 1;
+  let endTournamentId = startTournamentId + TOURNAMENT_BOT_MAX_PER_CYCLE - 1;
 
   if (endTournamentId > totalTournaments) {
     endTournamentId = totalTournaments;
@@ -3285,8 +7271,8 @@ export function advanceTournamentBot(_: StaticArray<u8>): void {
   let actionsCount: u64 = 0;
 
   for (let i = startTournamentId; i <= endTournamentId; i++) {
-    const tournamentId = i.toString();
-    if (!hasKey(tournamentKey(tournamentId))) {
+    const tournamentId = getString(tournamentIndexKey(i));
+    if (tournamentId.length == 0 || !hasKey(tournamentKey(tournamentId))) {
       continue;
     }
 
@@ -3299,27 +7285,43 @@ export function advanceTournamentBot(_: StaticArray<u8>): void {
       continue;
     }
 
-    const now = Context.timestamp();
-
     // Check if tournament should start (registration complete)
     if (tournament.currentRound == 0 && tournament.participants.length >= (tournament.maxParticipants as i32)) {
       generateEvent('TournamentBot:StartingTournament|tournamentId=' + tournamentId);
 
-      tournament.currentRound = 1;
-      tournament.startedAt = now;
-      setBytes(tournamentKey(tournamentId), tournament.serialize());
+      startTournamentBracket(tournament);
 
       actionsCount += 1;
       generateEvent('TournamentBot:TournamentStarted|tournamentId=' + tournamentId + '|participants=' + tournament.participants.length.toString());
       continue;
     }
 
+    // Registration closed without filling the bracket: refund everyone
+    if (tournament.currentRound == 0 && tournament.registrationDeadline > 0 && Context.timestamp() >= tournament.registrationDeadline) {
+      cancelTournamentRegistration(tournament);
+      actionsCount += 1;
+      generateEvent('TournamentBot:TournamentCancelled|tournamentId=' + tournamentId);
+      continue;
+    }
+
     // Auto-advance rounds when current round battles complete
-    // (This would check battle completion and advance to next round)
-    // Implementation depends on battle tracking per tournament
     if (tournament.currentRound > 0 && !tournament.isFinished) {
       generateEvent('TournamentBot:CheckingRoundProgress|tournamentId=' + tournamentId + '|round=' + tournament.currentRound.toString());
-      // TODO: Implement round progression logic when battle-tournament linking is added
+      const lootBattles: string[] = [];
+      const roundFinished = finalizeTournamentRound(tournament, lootBattles);
+      for (let i = 0; i < lootBattles.length; i++) requestLootRandomness(lootBattles[i]);
+      if (!roundFinished) {
+        continue;
+      }
+
+      const fromRound = tournament.currentRound;
+      advanceTournamentRound(tournament);
+      actionsCount += 1;
+      if (tournament.isFinished) {
+        generateEvent('TournamentBot:TournamentFinished|tournamentId=' + tournamentId + '|winner=' + tournament.winner);
+      } else {
+        generateEvent('TournamentBot:RoundAdvanced|tournamentId=' + tournamentId + '|from=' + fromRound.toString() + '|to=' + tournament.currentRound.toString());
+      }
     }
   }
 
@@ -3441,8 +7443,8 @@ export function advancePredictionBot(_: StaticArray<u8>): void {
 
     processedCount += 1;
 
-    // Skip if already settled or not closed
-    if (pool.isSettled || !pool.isClosed) {
+    // Skip if already settled or cancelled
+    if (pool.isSettled || pool.isCancelled) {
       continue;
     }
 
@@ -3455,7 +7457,16 @@ export function advancePredictionBot(_: StaticArray<u8>): void {
     const battleData = getBytes(battleKey(battleId));
     const battle = Battle.deserialize(battleData);
 
-    if (!battle.isFinished) {
+    // Cancelled/voided battle: open the pool for refunds instead of settling
+    if (battle.status == BATTLE_STATUS_CANCELLED || battle.status == BATTLE_STATUS_VOIDED) {
+      pool.isCancelled = true;
+      pool.isClosed = true;
+      setBytes(spoolKey(poolId), pool.serialize());
+      generateEvent('PredictionBot:PoolCancelled|poolId=' + poolId + '|battleId=' + battleId);
+      continue;
+    }
+
+    if (!pool.isClosed || battle.status != BATTLE_STATUS_FINISHED) {
       continue;
     }
 
@@ -3491,10 +7502,132 @@ export function advancePredictionBot(_: StaticArray<u8>): void {
   }
 }
 
+// ============================================================================
+// AUTONOMOUS EXECUTION - MATCHMAKING BOT (Pair queued characters)
+// ============================================================================
+
+/**
+ * Start the matchmaking bot, which re-runs pairing as search windows widen
+ * Args: maxIterations (u64) - maximum cycles to run
+ */
+export function startMatchmakingBot(args: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+  const ar = new Args(args);
+  let maxIterations: u64 = 1000;
+  const maxIter = ar.nextU64();
+  if (!maxIter.isErr()) {
+    maxIterations = maxIter.unwrap();
+  }
+
+  generateEvent('MatchmakingBot:Starting|maxIterations=' + maxIterations.toString());
+
+  setBool(MATCHMAKING_BOT_ENABLED_KEY, true);
+  setCounter(MATCHMAKING_BOT_COUNTER_KEY, 0);
+  setCounter(MATCHMAKING_BOT_MAX_ITERATIONS, maxIterations);
+  setCounter(MATCHMAKING_BOT_TOTAL_MATCHED, 0);
+
+  generateEvent('MatchmakingBot:Started|maxIterations=' + maxIterations.toString());
+
+  advanceMatchmakingBot(new Args().serialize());
+}
+
+/**
+ * Stop the matchmaking bot
+ */
+export function stopMatchmakingBot(_: StaticArray<u8>): void {
+  onlyRole(ADMIN_ROLE);
+
+  const botEnabled = getBool(MATCHMAKING_BOT_ENABLED_KEY);
+  if (!botEnabled) {
+    generateEvent('MatchmakingBot:AlreadyStopped');
+    return;
+  }
+
+  setBool(MATCHMAKING_BOT_ENABLED_KEY, false);
+
+  const currentCounter = getCounter(MATCHMAKING_BOT_COUNTER_KEY);
+  const totalMatched = getCounter(MATCHMAKING_BOT_TOTAL_MATCHED);
+
+  generateEvent('MatchmakingBot:Stopped|cycles=' + currentCounter.toString() + '|totalMatched=' + totalMatched.toString());
+}
+
+/**
+ * Autonomous matchmaking cycle
+ * Expires stale tickets (refunding stakes) and pairs tickets whose widened windows now overlap
+ */
+export function advanceMatchmakingBot(_: StaticArray<u8>): void {
+  const enabled = getBool(MATCHMAKING_BOT_ENABLED_KEY);
+  if (!enabled) {
+    generateEvent('MatchmakingBot:Disabled');
+    return;
+  }
+
+  let botCounter = getCounter(MATCHMAKING_BOT_COUNTER_KEY);
+  const maxIterations = getCounter(MATCHMAKING_BOT_MAX_ITERATIONS);
+
+  if (botCounter >= maxIterations) {
+    generateEvent('MatchmakingBot:MaxIterationsReached|counter=' + botCounter.toString());
+    setBool(MATCHMAKING_BOT_ENABLED_KEY, false);
+    return;
+  }
+
+  const now = Context.timestamp();
+  const queue = loadMatchQueue();
+  generateEvent('MatchmakingBot:Processing|queued=' + queue.length.toString());
+
+  let expiredCount: u64 = 0;
+  let matchedCount: u64 = 0;
+
+  // Oldest tickets first, so long waits are served before fresh ones
+  for (let i = 0; i < queue.length && matchedCount < MATCHMAKING_BOT_MAX_PER_CYCLE; i++) {
+    const charId = queue[i];
+    if (!hasKey(matchmakingTicketKey(charId))) {
+      continue; // Matched earlier in this cycle
+    }
+    const ticket = MatchmakingTicket.deserialize(getBytes(matchmakingTicketKey(charId)));
+
+    if (now > ticket.enqueuedAt + MATCHMAKING_TICKET_TTL) {
+      removeFromMatchQueue(charId);
+      refundTicketStake(ticket);
+      expiredCount += 1;
+      generateEvent('MatchmakingBot:TicketExpired|characterId=' + charId);
+      continue;
+    }
+
+    const char = Character.deserialize(getBytes(characterKey(charId)));
+    const opponentId = findMatchFor(ticket, char, loadMatchQueue(), now);
+    if (opponentId.length == 0) {
+      continue;
+    }
+
+    const opponent = MatchmakingTicket.deserialize(getBytes(matchmakingTicketKey(opponentId)));
+    const battleId = createMatchedBattle(ticket, opponent);
+    matchedCount += 1;
+    generateEvent('MatchmakingBot:Matched|battleId=' + battleId + '|player1=' + charId + '|player2=' + opponentId);
+  }
+
+  // Update counters
+  botCounter += 1;
+  setCounter(MATCHMAKING_BOT_COUNTER_KEY, botCounter);
+
+  const totalMatched = getCounter(MATCHMAKING_BOT_TOTAL_MATCHED) + matchedCount;
+  setCounter(MATCHMAKING_BOT_TOTAL_MATCHED, totalMatched);
+
+  generateEvent('MatchmakingBot:CycleComplete|cycle=' + botCounter.toString() + '|matched=' + matchedCount.toString() + '|expired=' + expiredCount.toString());
+
+  // Schedule next cycle
+  if (botCounter < maxIterations) {
+    callNextSlot(Context.callee(), 'advanceMatchmakingBot', MATCHMAKING_BOT_GAS_COST);
+  } else {
+    generateEvent('MatchmakingBot:Completed|totalCycles=' + botCounter.toString() + '|totalMatched=' + totalMatched.toString());
+    setBool(MATCHMAKING_BOT_ENABLED_KEY, false);
+  }
+}
+
 /*
   Notes & Next Steps:
   - The above provides core patterns and functions to implement the game and prediction/betting contracts on Massa AssemblyScript.
-  - For production: replace simple_random with a secure VRF integration (Cadence equivalent on Massa if provided or oracle), implement treasury, refund/cancel flows,
+  - For production: consider a VRF/oracle randomness source on top of commit-reveal, implement treasury, refund/cancel flows,
     add robust multipool batch implementation, add exact serialization sizes, and write full unit tests and integration tests.
   - Also implement MP token support, careful gas and storage sizing, and off-chain indexer to assist in multipool accumulation and UI.
   - Prop bets add exciting gameplay by allowing bets on battle events like turn duration, critical hits, combos, wildcards, and status effects.
@@ -0,0 +1,91 @@
+/*
+  Mock randomness oracle (local testing only)
+  Implements the provider side of IRandomnessSource: requests are recorded and
+  fulfilled later by the owner with a chosen value, which makes turn outcomes
+  reproducible. Never point a production game at this contract.
+*/
+
+import { Address, Context, Storage, call, callerHasWriteAccess, generateEvent } from "@massalabs/massa-as-sdk";
+import { Args, bytesToString, stringToBytes } from "@massalabs/as-types";
+
+const OWNER_KEY = "owner";
+const REQUEST_PREFIX = "request:"; // request:<requestId> -> serialized OracleRequest
+
+export class OracleRequest {
+    requester: Address;
+    callbackFunction: string;
+    requestedAt: u64;
+
+    constructor() {
+        this.requester = new Address("0");
+        this.callbackFunction = "";
+        this.requestedAt = 0;
+    }
+
+    serialize(): StaticArray<u8> {
+        const a = new Args();
+        a.add(this.requester.toString());
+        a.add(this.callbackFunction);
+        a.add(this.requestedAt);
+        return a.serialize();
+    }
+
+    static deserialize(data: StaticArray<u8>): OracleRequest {
+        const a = new Args(data);
+        const r = new OracleRequest();
+        r.requester = new Address(a.nextString().unwrap());
+        r.callbackFunction = a.nextString().unwrap();
+        r.requestedAt = a.nextU64().unwrap();
+        return r;
+    }
+}
+
+function requestKey(requestId: string): StaticArray<u8> {
+    return stringToBytes(REQUEST_PREFIX + requestId);
+}
+
+export function constructor(_: StaticArray<u8>): void {
+    assert(callerHasWriteAccess(), "Must be deployment");
+    Storage.set<StaticArray<u8>>(stringToBytes(OWNER_KEY), stringToBytes(Context.caller().toString()));
+    generateEvent("MockRandomnessOracle deployed");
+}
+
+// Record a request from a consumer contract
+export function requestRandomness(args: StaticArray<u8>): void {
+    const ar = new Args(args);
+    const requestId = ar.nextString().unwrap();
+    const callbackFunction = ar.nextString().unwrap();
+
+    const request = new OracleRequest();
+    request.requester = Context.caller();
+    request.callbackFunction = callbackFunction;
+    request.requestedAt = Context.timestamp();
+
+    Storage.set<StaticArray<u8>>(requestKey(requestId), request.serialize());
+    generateEvent("RandomnessRequested:" + requestId + ":requester=" + request.requester.toString());
+}
+
+// Deliver a value to the requester (owner only)
+export function fulfill(args: StaticArray<u8>): void {
+    const owner = bytesToString(Storage.get<StaticArray<u8>>(stringToBytes(OWNER_KEY)));
+    assert(Context.caller().toString() == owner, "not owner");
+
+    const ar = new Args(args);
+    const requestId = ar.nextString().unwrap();
+    const randomness = ar.nextU64().unwrap();
+
+    assert(Storage.has(requestKey(requestId)), "unknown request");
+    const request = OracleRequest.deserialize(Storage.get<StaticArray<u8>>(requestKey(requestId)));
+    Storage.del(requestKey(requestId));
+
+    call(request.requester, request.callbackFunction, new Args().add(requestId).add(randomness), 0);
+    generateEvent("RandomnessFulfilled:" + requestId + ":value=" + randomness.toString());
+}
+
+// View a pending request ('null' once fulfilled)
+export function readRequest(args: StaticArray<u8>): StaticArray<u8> {
+    const ar = new Args(args);
+    const requestId = ar.nextString().unwrap();
+    if (!Storage.has(requestKey(requestId))) return stringToBytes("null");
+    return Storage.get<StaticArray<u8>>(requestKey(requestId));
+}
@@ -0,0 +1,169 @@
+import { bytesToString, NoArg, bytesToU64, byteToBool, Args } from "@massalabs/as-types";
+import { Address, call } from "@massalabs/massa-as-sdk";
+
+/**
+ * Wrapper for the game's equipment NFT (MRC-721 style).
+ *
+ * Token ids are equipment ids. All the serialization/deserialization
+ * is handled here.
+ *
+ * ```typescript
+ *  const nft = new INFT(gameAddress);
+ *  const owner = nft.ownerOf("sword-1");
+ *  const held = nft.balanceOf(owner);
+ * ```
+ */
+export class INFT {
+    _origin: Address;
+
+    /**
+     * Wraps a smart contract exposing the equipment NFT FFI.
+     *
+     * @param {Address} at - Address of the game contract.
+     */
+    constructor(at: Address) {
+        this._origin = at;
+    }
+
+    /**
+     * Returns the name of the collection.
+     *
+     * @returns collection name.
+     */
+    name(): string {
+        return bytesToString(call(this._origin, "name", NoArg, 0));
+    }
+
+    /**
+     * Returns the symbol of the collection.
+     *
+     * @returns collection symbol.
+     */
+    symbol(): string {
+        return bytesToString(call(this._origin, "symbol", NoArg, 0));
+    }
+
+    /**
+     * Returns the number of items in existence (minted minus burned).
+     *
+     * @returns number of items.
+     */
+    totalSupply(): u64 {
+        return bytesToU64(call(this._origin, "totalSupply", NoArg, 0));
+    }
+
+    /**
+     * Returns the metadata URI of an item.
+     *
+     * @param {string} tokenId - Equipment id.
+     * @returns metadata URI.
+     */
+    tokenURI(tokenId: string): string {
+        return bytesToString(call(this._origin, "tokenURI", new Args().add(tokenId), 0));
+    }
+
+    /**
+     * Returns the owner of an item.
+     *
+     * @param {string} tokenId - Equipment id.
+     * @returns owner address.
+     */
+    ownerOf(tokenId: string): Address {
+        return new Address(bytesToString(call(this._origin, "ownerOf", new Args().add(tokenId), 0)));
+    }
+
+    /**
+     * Returns the number of items held by an account.
+     *
+     * @param {Address} owner - Account to query.
+     * @returns number of items held.
+     */
+    balanceOf(owner: Address): u64 {
+        return bytesToU64(call(this._origin, "balanceOf", new Args().add(owner.toString()), 0));
+    }
+
+    /**
+     * Returns the item at a given position in an account's list.
+     *
+     * @param {Address} owner - Account to query.
+     * @param {u64} index - 0-based position, below balanceOf(owner).
+     * @returns equipment id.
+     */
+    tokenOfOwnerByIndex(owner: Address, index: u64): string {
+        return bytesToString(call(this._origin, "tokenOfOwnerByIndex", new Args().add(owner.toString()).add(index), 0));
+    }
+
+    /**
+     * Returns the address approved for an item, or an empty string.
+     *
+     * @param {string} tokenId - Equipment id.
+     * @returns approved address.
+     */
+    getApproved(tokenId: string): string {
+        return bytesToString(call(this._origin, "getApproved", new Args().add(tokenId), 0));
+    }
+
+    /**
+     * Returns whether an operator may manage all of an owner's items.
+     *
+     * @param {Address} owner - Item owner.
+     * @param {Address} operator - Operator to check.
+     * @returns true if approved.
+     */
+    isApprovedForAll(owner: Address, operator: Address): bool {
+        return byteToBool(
+            call(this._origin, "isApprovedForAll", new Args().add(owner.toString()).add(operator.toString()), 0),
+        );
+    }
+
+    /**
+     * Approves an address to transfer one item.
+     *
+     * This function can only be called by the owner or one of its operators.
+     *
+     * @param {Address} to - Address to approve.
+     * @param {string} tokenId - Equipment id.
+     */
+    approve(to: Address, tokenId: string): void {
+        call(this._origin, "approve", new Args().add(to.toString()).add(tokenId), 0);
+    }
+
+    /**
+     * Grants or revokes an operator over all of the caller's items.
+     *
+     * @param {Address} operator - Operator address.
+     * @param {bool} approved - true to grant, false to revoke.
+     */
+    setApprovalForAll(operator: Address, approved: bool): void {
+        call(this._origin, "setApprovalForAll", new Args().add(operator.toString()).add(approved), 0);
+    }
+
+    /**
+     * Transfers an item. The caller must be the owner, approved, or an operator.
+     *
+     * @param {Address} from - Current owner.
+     * @param {Address} to - Recipient.
+     * @param {string} tokenId - Equipment id.
+     */
+    transferFrom(from: Address, to: Address, tokenId: string): void {
+        call(this._origin, "transferFrom", new Args().add(from.toString()).add(to.toString()).add(tokenId), 0);
+    }
+
+    /**
+     * Transfers an item, requiring a contract recipient to accept it
+     * through onMRC721Received.
+     *
+     * @param {Address} from - Current owner.
+     * @param {Address} to - Recipient.
+     * @param {string} tokenId - Equipment id.
+     * @param {StaticArray<u8>} data - Payload forwarded to the recipient hook.
+     */
+    safeTransferFrom(from: Address, to: Address, tokenId: string, data: StaticArray<u8>): void {
+        call(
+            this._origin,
+            "safeTransferFrom",
+            new Args().add(from.toString()).add(to.toString()).add(tokenId).add(data),
+            0,
+        );
+    }
+}
@@ -0,0 +1,36 @@
+import { Args } from "@massalabs/as-types";
+import { Address, call } from "@massalabs/massa-as-sdk";
+
+/**
+ * Wrapper for an external randomness provider (VRF / oracle).
+ *
+ * Requests are asynchronous: the provider records the request and later calls
+ * `callbackFunction(requestId: string, randomness: u64)` on the requesting contract.
+ *
+ * ```typescript
+ *  const source = new IRandomnessSource(oracleAddress);
+ *  source.requestRandomness("battle-1:4", "game_fulfillRandomness");
+ * ```
+ */
+export class IRandomnessSource {
+    _origin: Address;
+
+    /**
+     * Wraps a smart contract exposing the randomness provider FFI.
+     *
+     * @param {Address} at - Address of the smart contract.
+     */
+    constructor(at: Address) {
+        this._origin = at;
+    }
+
+    /**
+     * Requests a random value for the calling contract
+     *
+     * @param {string} requestId - Identifier echoed back in the callback
+     * @param {string} callbackFunction - Function called on the requester with (requestId, randomness)
+     */
+    requestRandomness(requestId: string, callbackFunction: string): void {
+        call(this._origin, "requestRandomness", new Args().add(requestId).add(callbackFunction), 0);
+    }
+}
@@ -2,3 +2,5 @@ export * from "./IERC20";
 export * from "./IFactory";
 export * from "./IPair";
 export * from "./IRouter";
+export * from "./IRandomnessSource";
+export * from "./INFT";
@@ -129,7 +129,8 @@ async function main(): Promise<void> {
 
     log('Creating battle between characters...');
     const battleId = `test_battle_${Date.now()}`;
-    const now = Date.now();
+    // Challenges must start in the future and be accepted by player 2's owner
+    const battleStartTs = Date.now() + 60_000;
 
     const battleTx = await gameContract.call(
       'game_createBattle',
@@ -137,7 +138,7 @@ async function main(): Promise<void> {
         .addString(battleId)
         .addString(char1Id)
         .addString(char2Id)
-        .addU64(BigInt(now)),
+        .addU64(BigInt(battleStartTs)),
       { coins: Mas.fromString('0.1') }
     );
 
@@ -152,6 +153,16 @@ async function main(): Promise<void> {
 
     logSuccess(`Battle created: ${battleId}`);
 
+    log('Accepting challenge as player 2...');
+    const acceptTx = await gameContract.call(
+      'game_acceptChallenge',
+      new Args().addString(battleId),
+      { coins: Mas.fromString('0.1') }
+    );
+
+    await acceptTx.waitFinalExecution();
+    logSuccess('Challenge accepted');
+
     // =========================================================================
     // STEP 4: Read battle details
     logSection('📖 STEP 4: Read Battle Details');
@@ -12,7 +12,7 @@
  *
  * Tournament Bot Features:
  * - Auto-starts tournaments when max participants reached
- * - Checks round progress (placeholder for future battle-tournament linking)
+ * - Finalizes finished round matches and advances the bracket to the next round
  * - Processes up to 5 tournaments per cycle
  * - Comprehensive event tracking
  *
@@ -77,8 +77,10 @@ async function main(): Promise<void> {
 
     const deployed = JSON.parse(fs.readFileSync(addressesPath, 'utf-8'));
     const gameContractAddress = deployed.contracts.game;
+    const tokenAddress = deployed.contracts.token; // ERC20 escrowing entry fees and prizes
 
     log(`Game Contract: ${gameContractAddress}`);
+    log(`Token Contract: ${tokenAddress}`);
 
     const gameContract = new SmartContract(provider, gameContractAddress);
 
@@ -124,8 +126,9 @@ async function main(): Promise<void> {
 
     log('Creating tournament...');
     const tournamentId = `test_tournament_${Date.now()}`;
-    const entryFee = BigInt(1000000); // 0.001 MAS in nanoMAS
-    const prizePool = BigInt(4000000); // 0.004 MAS in nanoMAS
+    // Token amounts; the caller must have approved the game contract for the prize pool and each entry fee
+    const entryFee = BigInt(1000000);
+    const prizePool = BigInt(4000000);
 
     const tournamentTx = await gameContract.call(
       'game_createTournament',
@@ -134,7 +137,8 @@ async function main(): Promise<void> {
         .addString('Bot Test Tournament')
         .addU8(maxParticipants)
         .addU64(entryFee)
-        .addU64(prizePool),
+        .addU64(prizePool)
+        .addString(tokenAddress),
       { coins: Mas.fromString('0.1') }
     );
 
@@ -354,7 +358,7 @@ async function main(): Promise<void> {
 
     log(`\n🤖 Tournament Bot Features:`);
     log(`  ✅ Auto-starts tournaments when max participants reached`);
-    log(`  ✅ Checks round progress (future: battle-tournament linking)`);
+    log(`  ✅ Advances bracket rounds as match battles finish`);
     log(`  ✅ Processes up to 5 tournaments per cycle`);
     log(`  ✅ Comprehensive event tracking for monitoring`);
 